@@ -0,0 +1,313 @@
+import * as fs from 'fs';
+import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
+import { parseArgs, runCli } from '../cli';
+
+describe('CLI', () => {
+  let tmpDir: string;
+
+  const writeConfig = (fileName: string, content: string) => {
+    fs.writeFileSync(path.join(tmpDir, fileName), content);
+  };
+
+  const jsonConfig = (routes: object[]) => JSON.stringify({
+    title: 'CLI API',
+    version: '1.0.0',
+    output: 'spec.json',
+    project: {
+      rootDir: path.join(__dirname),
+      include: ['fixtures/**/*.ts']
+    },
+    securitySchemes: {
+      bearerAuth: { type: 'http', scheme: 'bearer' }
+    },
+    routes
+  });
+
+  const USER_ROUTE = {
+    path: '/users/{userId}',
+    method: 'get',
+    security: ['bearerAuth'],
+    responses: [{ statusCode: 200, description: 'Success', type: 'User' }]
+  };
+
+  // A service in its own directory, with a config that uses relative paths
+  const writeService = (directory: string) => {
+    fs.mkdirSync(path.join(tmpDir, directory, 'src'), { recursive: true });
+    fs.writeFileSync(path.join(tmpDir, directory, 'tsconfig.json'), JSON.stringify({ include: ['src/**/*.ts'] }));
+    fs.writeFileSync(path.join(tmpDir, directory, 'src', 'account.ts'), 'export type Account = { id: number };\n');
+    fs.writeFileSync(path.join(tmpDir, directory, 'openapi.config.json'), JSON.stringify({
+      title: 'Accounts API',
+      version: '1.0.0',
+      project: { rootDir: '.', include: ['src/**/*.ts'] },
+      routes: [{ path: '/account', method: 'get', responses: [{ statusCode: 200, description: 'Success', type: 'Account' }] }]
+    }));
+  };
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'openapi-cli-'));
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+    jest.restoreAllMocks();
+  });
+
+  it('should parse commands and options', () => {
+    expect(parseArgs([])).toEqual({ command: 'generate', split: false, check: false, help: false });
+    expect(parseArgs(['validate', '-c', 'api.json'])).toEqual({
+      command: 'validate',
+      config: 'api.json',
+      split: false,
+      check: false,
+      help: false
+    });
+    expect(parseArgs(['--check', '--output', 'out.json'])).toEqual({
+      command: 'generate',
+      output: 'out.json',
+      split: false,
+      check: true,
+      help: false
+    });
+    expect(parseArgs(['--format', 'yaml', '--split'])).toEqual({
+      command: 'generate',
+      format: 'yaml',
+      split: true,
+      check: false,
+      help: false
+    });
+    expect(() => parseArgs(['--format', 'xml'])).toThrow("Unsupported format 'xml', expected json or yaml");
+    expect(() => parseArgs(['--output'])).toThrow("Option '--output' requires a value");
+    expect(() => parseArgs(['--unknown'])).toThrow("Unknown argument '--unknown'");
+    expect(parseArgs(['mock', 'spec.json', '--port', '8080'])).toMatchObject({ command: 'mock', specs: ['spec.json'], port: 8080 });
+    expect(() => parseArgs(['mock', '-p', 'http'])).toThrow("Invalid port 'http'");
+  });
+
+  it('should generate the spec from a JSON config file', async () => {
+    writeConfig('openapi.config.json', jsonConfig([USER_ROUTE]));
+
+    expect(await runCli(['generate'], tmpDir)).toBe(0);
+
+    const spec = JSON.parse(fs.readFileSync(path.join(tmpDir, 'spec.json'), 'utf8'));
+    expect(spec.info.title).toBe('CLI API');
+    expect(spec.paths['/users/{userId}'].get).toBeDefined();
+    expect(spec.components.schemas.User).toBeDefined();
+    expect(spec.components.securitySchemes.bearerAuth).toBeDefined();
+  });
+
+  it('should load TypeScript config files', async () => {
+    writeConfig('openapi.config.ts', `
+      const config = ${jsonConfig([USER_ROUTE])};
+      export default config;
+    `);
+
+    expect(await runCli(['--output', 'typed.json'], tmpDir)).toBe(0);
+    expect(fs.existsSync(path.join(tmpDir, 'typed.json'))).toBe(true);
+  });
+
+  it('should resolve project paths relative to the config file', async () => {
+    writeService('accounts');
+
+    expect(await runCli(['-c', 'accounts/openapi.config.json', '-o', 'accounts.json'], tmpDir)).toBe(0);
+
+    const spec = JSON.parse(fs.readFileSync(path.join(tmpDir, 'accounts.json'), 'utf8'));
+    expect(spec.components.schemas.Account).toEqual({
+      type: 'object',
+      properties: { id: { type: 'number' } },
+      required: ['id']
+    });
+  });
+
+  it('should fail the check when the written spec is stale', async () => {
+    writeConfig('openapi.config.json', jsonConfig([USER_ROUTE]));
+
+    expect(await runCli(['--check'], tmpDir)).toBe(1);
+    expect(await runCli([], tmpDir)).toBe(0);
+    expect(await runCli(['--check'], tmpDir)).toBe(0);
+
+    writeConfig('openapi.config.json', jsonConfig([
+      USER_ROUTE,
+      { path: '/posts', method: 'get', responses: [{ statusCode: 200, description: 'Success' }] }
+    ]));
+    expect(await runCli(['--check'], tmpDir)).toBe(1);
+  });
+
+  it('should validate routes and report diagnostics', async () => {
+    writeConfig('openapi.config.json', jsonConfig([
+      { ...USER_ROUTE, security: ['apiKey'] }
+    ]));
+
+    expect(await runCli(['validate'], tmpDir)).toBe(1);
+    expect(console.error).toHaveBeenCalledWith(
+      "[unknown-security-scheme] GET /users/{userId}: Security scheme 'apiKey' has not been registered with addSecurityScheme"
+    );
+    expect(fs.existsSync(path.join(tmpDir, 'spec.json'))).toBe(false);
+  });
+
+  it('should add discovered routes when enabled in the config', async () => {
+    const { routes, ...config } = JSON.parse(jsonConfig([]));
+    writeConfig('openapi.config.json', JSON.stringify({ ...config, discoverRoutes: true }));
+
+    expect(await runCli(['generate'], tmpDir)).toBe(0);
+
+    const spec = JSON.parse(fs.readFileSync(path.join(tmpDir, 'spec.json'), 'utf8'));
+    expect(Object.keys(spec.paths)).toEqual(['/orders/{orderId}/posts', '/users', '/users/{userId}']);
+  });
+
+  it('should fail when no config file is found', async () => {
+    expect(await runCli([], tmpDir)).toBe(1);
+    expect(console.error).toHaveBeenCalledWith(
+      'No config file found, expected one of: openapi.config.ts, openapi.config.js, openapi.config.json'
+    );
+  });
+
+  it('should write and check split YAML output', async () => {
+    writeConfig('openapi.config.json', jsonConfig([USER_ROUTE]));
+
+    expect(await runCli(['-o', 'api/openapi.yaml', '--split'], tmpDir)).toBe(0);
+    expect(fs.existsSync(path.join(tmpDir, 'api', 'components', 'schemas', 'User.yaml'))).toBe(true);
+    expect(fs.existsSync(path.join(tmpDir, 'api', 'paths', 'users_{userId}.yaml'))).toBe(true);
+    expect(await runCli(['-o', 'api/openapi.yaml', '--split', '--check'], tmpDir)).toBe(0);
+
+    fs.unlinkSync(path.join(tmpDir, 'api', 'components', 'schemas', 'UserType.yaml'));
+    expect(await runCli(['-o', 'api/openapi.yaml', '--split', '--check'], tmpDir)).toBe(1);
+  });
+
+  it('should report breaking changes between specs', async () => {
+    writeConfig('openapi.config.json', jsonConfig([USER_ROUTE]));
+    expect(await runCli([], tmpDir)).toBe(0);
+
+    expect(parseArgs(['diff', 'old.json', 'new.json', '--report', 'json'])).toMatchObject({
+      command: 'diff',
+      specs: ['old.json', 'new.json'],
+      report: 'json'
+    });
+    expect(() => parseArgs(['diff'])).toThrow('diff expects a base spec and optionally a head spec');
+
+    // Compared with the spec generated from the config
+    expect(await runCli(['diff', 'spec.json'], tmpDir)).toBe(0);
+    expect(console.log).toHaveBeenLastCalledWith('No changes');
+
+    writeConfig('openapi.config.json', jsonConfig([]));
+    expect(await runCli(['diff', 'spec.json', '--report', 'json'], tmpDir)).toBe(1);
+    expect(JSON.parse((console.log as jest.Mock).mock.calls.slice(-1)[0][0])).toEqual({
+      breaking: 1,
+      nonBreaking: 0,
+      changes: [{ code: 'path-removed', breaking: true, message: "Path '/users/{userId}' was removed" }]
+    });
+  });
+
+  it('should merge the specs of several services', async () => {
+    writeConfig('users.config.json', jsonConfig([USER_ROUTE]));
+    expect(await runCli(['-c', 'users.config.json', '-o', 'users.json'], tmpDir)).toBe(0);
+    writeConfig('gateway.config.json', JSON.stringify({
+      title: 'Gateway',
+      version: '1.0.0',
+      output: 'gateway.yaml',
+      services: [
+        { name: 'users', spec: 'users.json', pathPrefix: '/v1' },
+        { name: 'accounts', config: 'users.config.json', pathPrefix: '/v2' }
+      ]
+    }));
+
+    expect(await runCli(['merge', '-c', 'gateway.config.json'], tmpDir)).toBe(0);
+    expect(console.log).toHaveBeenLastCalledWith('Merged 2 services into gateway.yaml');
+    const merged = fs.readFileSync(path.join(tmpDir, 'gateway.yaml'), 'utf8');
+    expect(merged).toContain('/v1/users/{userId}:');
+    expect(merged).toContain('/v2/users/{userId}:');
+
+    writeConfig('conflicting.config.json', JSON.stringify({
+      title: 'Gateway',
+      version: '1.0.0',
+      services: [{ name: 'users', spec: 'users.json' }, { name: 'accounts', spec: 'users.json' }]
+    }));
+    expect(await runCli(['merge', '-c', 'conflicting.config.json'], tmpDir)).toBe(1);
+    expect(console.error).toHaveBeenCalledWith('[operation-conflict] accounts: GET /users/{userId} is already defined by users and was left out');
+  });
+
+  it('should generate merged services from configs in their own directories', async () => {
+    writeService(path.join('services', 'accounts'));
+    writeConfig('gateway.config.json', JSON.stringify({
+      title: 'Gateway',
+      version: '1.0.0',
+      output: 'gateway.json',
+      services: [{ name: 'accounts', config: 'services/accounts/openapi.config.json', pathPrefix: '/accounts' }]
+    }));
+
+    expect(await runCli(['merge', '-c', 'gateway.config.json'], tmpDir)).toBe(0);
+
+    const spec = JSON.parse(fs.readFileSync(path.join(tmpDir, 'gateway.json'), 'utf8'));
+    expect(Object.keys(spec.paths)).toEqual(['/accounts/account']);
+    expect(spec.components.schemas.Account).toBeDefined();
+  });
+
+  it('should rewrite the spec when watched files change', async () => {
+    fs.mkdirSync(path.join(tmpDir, 'src'));
+    fs.writeFileSync(path.join(tmpDir, 'src', 'account.ts'), 'export type Account = { id: number };\n');
+    writeConfig('openapi.config.json', JSON.stringify({
+      title: 'Watched API',
+      version: '1.0.0',
+      output: 'spec.json',
+      project: { rootDir: path.join(tmpDir, 'src'), include: ['**/*.ts'] },
+      routes: [{ path: '/account', method: 'get', responses: [{ statusCode: 200, description: 'Success', type: 'Account' }] }]
+    }));
+    expect(parseArgs(['--watch']).watch).toBe(true);
+
+    const exitCode = runCli(['--watch'], tmpDir);
+    await waitFor(() => (console.log as jest.Mock).mock.calls.some(([message]) => message.startsWith('Watching')));
+    fs.writeFileSync(path.join(tmpDir, 'src', 'account.ts'), 'export type Account = { id: number; name: string };\n');
+    await waitFor(() => (console.log as jest.Mock).mock.calls.some(([message]) => message.startsWith('Regenerated')));
+    process.emit('SIGINT');
+
+    expect(await exitCode).toBe(0);
+    const spec = JSON.parse(fs.readFileSync(path.join(tmpDir, 'spec.json'), 'utf8'));
+    expect(spec.components.schemas.Account.required).toEqual(['id', 'name']);
+  });
+
+  it('should serve a spec file from a mock server', async () => {
+    writeConfig('openapi.config.json', jsonConfig([USER_ROUTE]));
+    expect(await runCli(['generate'], tmpDir)).toBe(0);
+
+    const exitCode = runCli(['mock', 'spec.json', '--port', '0'], tmpDir);
+    const log = console.log as jest.Mock;
+    await waitFor(() => log.mock.calls.some(([message]) => message.startsWith('Mock server listening on')));
+    const [url] = log.mock.calls.map(([message]) => message.match(/^Mock server listening on (.+)$/)?.[1]).filter(Boolean);
+
+    const response = await getJson(`${url}/users/42`, { Prefer: 'code=200' });
+    expect(response.status).toBe(200);
+    expect(response.body).toMatchObject({ id: expect.any(Number), email: expect.any(String) });
+    expect(log).toHaveBeenCalledWith('GET /users/42 200');
+    process.emit('SIGINT');
+
+    expect(await exitCode).toBe(0);
+  });
+});
+
+// Uses http rather than fetch, which Node 16 does not have
+function getJson(url: string, headers: Record<string, string>): Promise<{ status: number; body: unknown }> {
+  return new Promise((resolve, reject) => {
+    http.get(url, { headers }, response => {
+      const chunks: Buffer[] = [];
+      response.on('data', (chunk: Buffer) => chunks.push(chunk));
+      response.on('end', () => resolve({
+        status: response.statusCode as number,
+        body: JSON.parse(Buffer.concat(chunks).toString('utf8'))
+      }));
+    }).on('error', reject);
+  });
+}
+
+function waitFor(condition: () => boolean, timeout = 5000): Promise<void> {
+  const start = Date.now();
+  return new Promise((resolve, reject) => {
+    const poll = () => {
+      if (condition()) return resolve();
+      if (Date.now() - start > timeout) return reject(new Error('Timed out waiting for condition'));
+      setTimeout(poll, 20);
+    };
+    poll();
+  });
+}
@@ -0,0 +1,175 @@
+import * as path from 'path';
+import { Project, ts } from 'ts-morph';
+import OpenAPIGenerator from '../index';
+
+const CLIENT_PATH = path.resolve('src/__tests__/generated/client.ts');
+
+describe('renderClientModule', () => {
+  let generator: OpenAPIGenerator;
+  let client: string;
+
+  beforeAll(async () => {
+    generator = await OpenAPIGenerator.create({
+      project: {
+        rootDir: 'src/__tests__',
+        include: ['fixtures/**/*.ts']
+      }
+    });
+    generator
+      .addServer({ url: 'https://api.example.com' })
+      .addServer({
+        url: 'https://{stage}.example.com',
+        variables: { stage: { default: 'staging', enum: ['staging', 'dev'] } }
+      });
+    generator.addRoutes([
+      {
+        path: '/users/{userId}',
+        method: 'get',
+        summary: 'Get a user',
+        pathParamsType: 'UserPathParams',
+        headersType: 'TraceHeaders',
+        queryParameters: {
+          limit: { required: false, schema: { type: 'integer', minimum: 1 } }
+        },
+        responses: [
+          { statusCode: 200, description: 'Success', type: 'User' },
+          { statusCode: 404, description: 'Not found', type: 'ErrorResponse' }
+        ]
+      },
+      {
+        path: '/users',
+        method: 'get',
+        queryType: 'UserQuery',
+        responses: [{ statusCode: 200, description: 'Success', type: 'Paginated<User>' }]
+      },
+      {
+        path: '/users',
+        method: 'post',
+        requestType: 'CreateUserRequest',
+        responses: [{ statusCode: 201, description: 'Created', type: 'User' }]
+      },
+      {
+        path: '/users/{userId}',
+        method: 'delete',
+        deprecated: true,
+        responses: [{ statusCode: 204, description: 'Deleted' }]
+      },
+      {
+        path: '/invoices/{invoiceId}',
+        method: 'get',
+        operationId: 'getInvoice',
+        responses: [
+          { statusCode: 200, description: 'Success', type: 'billing/models#Invoice' },
+          { statusCode: 410, description: 'Legacy invoice', type: 'legacy/models#Invoice' }
+        ]
+      },
+      {
+        path: '/reports',
+        method: 'get',
+        operationId: 'getReport',
+        responses: [{ statusCode: 200, description: 'CSV report', contentTypes: ['text/csv'] }]
+      }
+    ]);
+    client = generator.renderClientModule(CLIENT_PATH);
+  });
+
+  it('should import the original types relative to the client', () => {
+    expect(client).toContain("import type { UserPathParams, TraceHeaders, User, ErrorResponse, UserQuery, Paginated, CreateUserRequest } from '../fixtures/types';");
+    expect(client).toContain("import type { Invoice } from '../fixtures/billing/models';");
+    expect(client).toContain("import type { Invoice as Invoice2 } from '../fixtures/legacy/models';");
+  });
+
+  it('should list the servers as selectable base URLs', () => {
+    expect(client).toContain("export const servers = [\n  'https://api.example.com',\n  'https://staging.example.com'\n] as const;");
+    expect(client).toContain('baseUrl?: typeof servers[number] | (string & {});');
+  });
+
+  it('should type parameters, bodies and responses per operation', () => {
+    expect(client).toContain([
+      'export type GetUsersByUserIdParams = {',
+      '  path: UserPathParams;',
+      '  query?: { limit?: number };',
+      '  headers: TraceHeaders;',
+      '};'
+    ].join('\n'));
+    expect(client).toContain([
+      'export type GetUsersByUserIdResponse =',
+      '  | ApiResponse<200, User>',
+      '  | ApiResponse<404, ErrorResponse>;'
+    ].join('\n'));
+    expect(client).toContain('export type GetUsersParams = {\n  query?: UserQuery;\n};');
+    expect(client).toContain('  | ApiResponse<200, Paginated<User>>;');
+    expect(client).toContain('export type PostUsersParams = {\n  body: CreateUserRequest;\n};');
+    expect(client).toContain('export type DeleteUsersByUserIdParams = {\n  path: { userId: string };\n};');
+    expect(client).toContain('  | ApiResponse<204, undefined>;');
+    expect(client).toContain('  | ApiResponse<200, Invoice>\n  | ApiResponse<410, Invoice2>;');
+    expect(client).toContain('export type GetReportResponse =\n  | ApiResponse<200, string>;');
+  });
+
+  it('should render one function per operation', () => {
+    expect(client).toContain([
+      '/**',
+      ' * Get a user',
+      ' */',
+      'export function getUsersByUserId(params: GetUsersByUserIdParams, options: ClientOptions = {}): Promise<GetUsersByUserIdResponse> {',
+      "  return request('GET', '/users/{userId}', params, options, true) as Promise<GetUsersByUserIdResponse>;",
+      '}'
+    ].join('\n'));
+    expect(client).toContain('/**\n * @deprecated\n */\nexport function deleteUsersByUserId(');
+    expect(client).toContain('export function getUsers(params: GetUsersParams = {}, options: ClientOptions = {})');
+    expect(client).toContain('    getUsers: (params: GetUsersParams = {}, overrides: ClientOptions = {}) => getUsers(params, { ...options, ...overrides })');
+    expect(client).toContain('    getInvoice: (params: GetInvoiceParams, overrides: ClientOptions = {}) => getInvoice(params, { ...options, ...overrides })');
+  });
+
+  it('should type-check against the project types', () => {
+    const project = new Project({
+      compilerOptions: { strict: true, target: ts.ScriptTarget.ES2020, noEmit: true, skipLibCheck: true }
+    });
+    project.addSourceFilesAtPaths('src/__tests__/fixtures/**/*.ts');
+    const sourceFile = project.createSourceFile(CLIENT_PATH, client);
+
+    const messages = sourceFile.getPreEmitDiagnostics().map(diagnostic =>
+      ts.flattenDiagnosticMessageText(diagnostic.compilerObject.messageText, ' ')
+    );
+    expect(messages).toEqual([]);
+  });
+
+  it('should send requests with fetch and read the responses', async () => {
+    const { outputText } = ts.transpileModule(client, { compilerOptions: { module: ts.ModuleKind.CommonJS } });
+    const module = { exports: {} as any };
+    new Function('module', 'exports', outputText)(module, module.exports);
+
+    // Only what the client reads from a response, so the test does not
+    // depend on a global Response
+    const requests: Array<{ url: string; init: RequestInit }> = [];
+    const fetch = async (url: string, init: RequestInit) => {
+      requests.push({ url, init });
+      return {
+        status: 200,
+        headers: { get: (name: string) => name.toLowerCase() === 'content-type' ? 'application/json' : null },
+        text: async () => JSON.stringify({ id: 42 })
+      };
+    };
+
+    const api = module.exports.createClient({ baseUrl: module.exports.servers[1], fetch, headers: { Authorization: 'Bearer token' } });
+    const response = await api.getUsersByUserId({
+      path: { userId: 42 },
+      query: { limit: 10 },
+      headers: { 'X-Correlation-Id': 'abc' }
+    });
+    await api.postUsers({ body: { name: 'Ada' } }, { baseUrl: 'http://localhost:3000/' });
+
+    expect(response).toMatchObject({ status: 200, data: { id: 42 } });
+    expect(requests[0].url).toBe('https://staging.example.com/users/42?limit=10');
+    expect(requests[0].init).toMatchObject({
+      method: 'GET',
+      headers: { 'Authorization': 'Bearer token', 'X-Correlation-Id': 'abc' }
+    });
+    expect(requests[1].url).toBe('http://localhost:3000/users');
+    expect(requests[1].init).toMatchObject({
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: '{"name":"Ada"}'
+    });
+  });
+});
@@ -0,0 +1,401 @@
+import { OpenAPIObject } from 'openapi3-ts';
+import { diffSpecs, formatChanges } from '../diff';
+
+describe('diffSpecs', () => {
+  const BASE: OpenAPIObject = {
+    openapi: '3.0.0',
+    info: { title: 'Test API', version: '1.0.0' },
+    paths: {
+      '/users/{userId}': {
+        get: {
+          parameters: [
+            { name: 'userId', in: 'path', required: true, schema: { type: 'number' } },
+            { name: 'expand', in: 'query', required: false, schema: { type: 'string', enum: ['posts', 'roles'] } }
+          ],
+          responses: {
+            '200': {
+              description: 'Success',
+              content: { 'application/json': { schema: { $ref: '#/components/schemas/User' } } }
+            },
+            '404': { description: 'Not found' }
+          }
+        },
+        delete: {
+          responses: { '204': { description: 'Deleted' } }
+        }
+      },
+      '/users': {
+        post: {
+          requestBody: {
+            content: { 'application/json': { schema: { $ref: '#/components/schemas/CreateUserRequest' } } }
+          },
+          responses: { '201': { description: 'Created' } }
+        }
+      }
+    },
+    components: {
+      schemas: {
+        User: {
+          type: 'object',
+          properties: {
+            id: { type: 'number' },
+            email: { type: 'string' },
+            type: { type: 'string', enum: ['admin', 'user'] },
+            manager: { $ref: '#/components/schemas/User' }
+          },
+          required: ['id', 'email', 'type']
+        },
+        CreateUserRequest: {
+          type: 'object',
+          properties: {
+            name: { type: 'string' },
+            type: { type: 'string', enum: ['admin', 'user', 'guest'] }
+          },
+          required: ['name']
+        }
+      }
+    }
+  };
+
+  const change = (update: (spec: any) => void): OpenAPIObject => {
+    const spec = JSON.parse(JSON.stringify(BASE));
+    update(spec);
+    return spec;
+  };
+
+  it('should find no changes between identical specs', () => {
+    expect(diffSpecs(BASE, change(() => undefined))).toEqual([]);
+  });
+
+  it('should report removed and added paths and operations', () => {
+    const current = change(spec => {
+      delete spec.paths['/users/{userId}'].delete;
+      delete spec.paths['/users'];
+      spec.paths['/users/{userId}'].put = { responses: {} };
+      spec.paths['/orders'] = {};
+    });
+
+    expect(diffSpecs(BASE, current)).toEqual([
+      { code: 'path-removed', breaking: true, message: "Path '/users' was removed" },
+      { code: 'operation-added', breaking: false, message: "Operation 'PUT /users/{userId}' was added" },
+      { code: 'operation-removed', breaking: true, message: "Operation 'DELETE /users/{userId}' was removed" },
+      { code: 'path-added', breaking: false, message: "Path '/orders' was added" }
+    ]);
+  });
+
+  it('should report parameter changes', () => {
+    const current = change(spec => {
+      const parameters = spec.paths['/users/{userId}'].get.parameters;
+      parameters[1] = { name: 'expand', in: 'header', required: false, schema: { type: 'string' } };
+      parameters.push({ name: 'tenant', in: 'query', required: true, schema: { type: 'string' } });
+      parameters.push({ name: 'page', in: 'query', required: false, schema: { type: 'number' } });
+      parameters[0].schema = { type: 'string' };
+    });
+
+    expect(diffSpecs(BASE, current)).toEqual([
+      {
+        code: 'parameter-location-changed',
+        breaking: true,
+        operation: 'GET /users/{userId}',
+        location: 'header.expand',
+        message: "Parameter 'expand' moved from query to header"
+      },
+      {
+        code: 'type-changed',
+        breaking: true,
+        operation: 'GET /users/{userId}',
+        location: 'path.userId',
+        message: 'Type changed from number to string'
+      },
+      {
+        code: 'parameter-added',
+        breaking: true,
+        operation: 'GET /users/{userId}',
+        location: 'query.tenant',
+        message: "Required parameter 'tenant' was added"
+      },
+      {
+        code: 'parameter-added',
+        breaking: false,
+        operation: 'GET /users/{userId}',
+        location: 'query.page',
+        message: "Optional parameter 'page' was added"
+      }
+    ]);
+  });
+
+  it('should treat request schemas as breaking when they accept less', () => {
+    const current = change(spec => {
+      const request = spec.components.schemas.CreateUserRequest;
+      request.properties.email = { type: 'string' };
+      request.properties.nickname = { type: 'string' };
+      request.required.push('email');
+      request.properties.type.enum = ['admin', 'user', 'trial'];
+    });
+
+    expect(diffSpecs(BASE, current).map(({ code, breaking, location }) => ({ code, breaking, location }))).toEqual([
+      { code: 'enum-narrowed', breaking: true, location: 'request.body.type' },
+      { code: 'enum-widened', breaking: false, location: 'request.body.type' },
+      { code: 'property-added', breaking: true, location: 'request.body.email' },
+      { code: 'property-added', breaking: false, location: 'request.body.nickname' }
+    ]);
+  });
+
+  it('should treat response schemas as breaking when they return less or more', () => {
+    const current = change(spec => {
+      const user = spec.components.schemas.User;
+      delete user.properties.email;
+      user.required = ['id'];
+      user.properties.type.enum = ['admin', 'user', 'guest'];
+      user.properties.id = { type: 'number', nullable: true };
+    });
+
+    expect(diffSpecs(BASE, current)).toEqual([
+      {
+        code: 'property-removed',
+        breaking: true,
+        operation: 'GET /users/{userId}',
+        location: 'response.200.body.email',
+        message: "Property 'email' was removed"
+      },
+      {
+        code: 'type-changed',
+        breaking: true,
+        operation: 'GET /users/{userId}',
+        location: 'response.200.body.id',
+        message: 'Type changed from number to number | null'
+      },
+      {
+        code: 'property-optional',
+        breaking: true,
+        operation: 'GET /users/{userId}',
+        location: 'response.200.body.type',
+        message: "Property 'type' became optional"
+      },
+      {
+        code: 'enum-widened',
+        breaking: true,
+        operation: 'GET /users/{userId}',
+        location: 'response.200.body.type',
+        message: 'Now allows "guest"'
+      }
+    ]);
+  });
+
+  it('should report response, media type and security changes', () => {
+    const current = change(spec => {
+      const operation = spec.paths['/users/{userId}'].get;
+      delete operation.responses['404'];
+      operation.responses['200'].content = { 'text/csv': { schema: { type: 'string' } } };
+      operation.security = [{ bearerAuth: [] }];
+      spec.paths['/users'].post.requestBody.required = true;
+    });
+
+    expect(diffSpecs(BASE, current).map(({ code, breaking }) => ({ code, breaking }))).toEqual([
+      { code: 'response-removed', breaking: true },
+      { code: 'media-type-removed', breaking: true },
+      { code: 'media-type-added', breaking: false },
+      { code: 'security-added', breaking: true },
+      { code: 'request-body-required', breaking: true }
+    ]);
+  });
+
+  it('should compare security requirements by scheme and scopes', () => {
+    const previous = change(spec => {
+      spec.paths['/users/{userId}'].get.security = [{ oauth: ['users:read'] }, { apiKey: [] }];
+      spec.paths['/users/{userId}'].delete.security = [{ bearerAuth: [] }];
+    });
+    const current = change(spec => {
+      spec.paths['/users/{userId}'].get.security = [{ oauth: ['users:read', 'users:write'] }, { apiKey: [] }, { bearerAuth: [] }];
+      spec.paths['/users/{userId}'].delete.security = [{ apiKey: [] }];
+    });
+
+    expect(diffSpecs(previous, current).map(({ code, breaking, operation, message }) => ({ code, breaking, operation, message }))).toEqual([
+      {
+        code: 'security-changed',
+        breaking: true,
+        operation: 'GET /users/{userId}',
+        message: "Security requirement 'oauth (users:read)' is no longer accepted"
+      },
+      {
+        code: 'security-changed',
+        breaking: false,
+        operation: 'GET /users/{userId}',
+        message: "Security requirement 'oauth (users:read, users:write)' was added"
+      },
+      {
+        code: 'security-changed',
+        breaking: false,
+        operation: 'GET /users/{userId}',
+        message: "Security requirement 'bearerAuth' was added"
+      },
+      {
+        code: 'security-changed',
+        breaking: true,
+        operation: 'DELETE /users/{userId}',
+        message: "Security requirement 'bearerAuth' is no longer accepted"
+      },
+      {
+        code: 'security-changed',
+        breaking: false,
+        operation: 'DELETE /users/{userId}',
+        message: "Security requirement 'apiKey' was added"
+      }
+    ]);
+    // Dropping a scope or an alternative still lets every client in
+    expect(diffSpecs(current, previous).filter(({ breaking }) => breaking)).toEqual([
+      {
+        code: 'security-changed',
+        breaking: true,
+        operation: 'GET /users/{userId}',
+        message: "Security requirement 'bearerAuth' is no longer accepted"
+      },
+      {
+        code: 'security-changed',
+        breaking: true,
+        operation: 'DELETE /users/{userId}',
+        message: "Security requirement 'apiKey' is no longer accepted"
+      }
+    ]);
+  });
+
+  it('should compare webhooks with requests and responses the other way round', () => {
+    const previous = change(spec => {
+      spec.openapi = '3.1.0';
+      spec.webhooks = {
+        userCreated: {
+          post: {
+            requestBody: { required: true, content: { 'application/json': { schema: { $ref: '#/components/schemas/User' } } } },
+            responses: { '200': { description: 'Received' } }
+          }
+        },
+        userDeleted: { post: { responses: { '200': { description: 'Received' } } } }
+      };
+    });
+    const current = JSON.parse(JSON.stringify(previous));
+    delete current.webhooks.userDeleted;
+    current.webhooks.userUpdated = { post: { responses: { '200': { description: 'Received' } } } };
+    current.webhooks.userCreated.post.parameters = [{ name: 'x-signature', in: 'header', required: true, schema: { type: 'string' } }];
+    const user = current.components.schemas.User;
+    delete user.properties.email;
+    user.required = ['id', 'type'];
+    user.properties.nickname = { type: 'string' };
+
+    expect(diffSpecs(previous, current).map(({ code, breaking, operation, location }) => ({ code, breaking, operation, location }))).toEqual([
+      { code: 'property-removed', breaking: true, operation: 'GET /users/{userId}', location: 'response.200.body.email' },
+      { code: 'property-added', breaking: false, operation: 'GET /users/{userId}', location: 'response.200.body.nickname' },
+      { code: 'webhook-removed', breaking: false, operation: undefined, location: undefined },
+      { code: 'parameter-added', breaking: false, operation: 'POST webhook userCreated', location: 'header.x-signature' },
+      { code: 'property-removed', breaking: true, operation: 'POST webhook userCreated', location: 'request.body.email' },
+      { code: 'property-added', breaking: false, operation: 'POST webhook userCreated', location: 'request.body.nickname' },
+      { code: 'webhook-added', breaking: false, operation: undefined, location: undefined }
+    ]);
+  });
+
+  it('should compare properties merged from allOf members', () => {
+    const current = change(spec => {
+      spec.components.schemas.Identified = {
+        type: 'object',
+        properties: { id: { type: 'number' } },
+        required: ['id']
+      };
+      const user = spec.components.schemas.User;
+      delete user.properties.id;
+      user.required = ['email', 'type'];
+      spec.components.schemas.User = { allOf: [{ $ref: '#/components/schemas/Identified' }, user] };
+    });
+
+    expect(diffSpecs(BASE, current)).toEqual([]);
+  });
+
+  it('should compare the variants of unions', () => {
+    const previous = change(spec => {
+      spec.components.schemas.Cat = {
+        type: 'object',
+        properties: { kind: { type: 'string', enum: ['cat'] }, meows: { type: 'boolean' } },
+        required: ['kind', 'meows']
+      };
+      spec.components.schemas.Dog = {
+        type: 'object',
+        properties: { kind: { type: 'string', enum: ['dog'] }, barks: { type: 'boolean' } },
+        required: ['kind', 'barks']
+      };
+      spec.components.schemas.Pet = {
+        oneOf: [{ $ref: '#/components/schemas/Cat' }, { $ref: '#/components/schemas/Dog' }],
+        discriminator: { propertyName: 'kind' }
+      };
+      spec.components.schemas.User.properties.pet = { $ref: '#/components/schemas/Pet' };
+      spec.components.schemas.CreateUserRequest.properties.pet = { $ref: '#/components/schemas/Pet' };
+    });
+    const current = JSON.parse(JSON.stringify(previous));
+    current.components.schemas.Pet.oneOf.pop();
+    delete current.components.schemas.Cat.properties.meows;
+    current.components.schemas.Cat.required = ['kind'];
+
+    expect(diffSpecs(previous, current).map(({ code, breaking, location, message }) => ({ code, breaking, location, message }))).toEqual([
+      { code: 'property-removed', breaking: true, location: 'response.200.body.pet.meows', message: "Property 'meows' was removed" },
+      { code: 'variant-removed', breaking: false, location: 'response.200.body.pet', message: "Variant 'Dog' was removed" },
+      { code: 'property-removed', breaking: false, location: 'request.body.pet.meows', message: "Property 'meows' was removed" },
+      { code: 'variant-removed', breaking: true, location: 'request.body.pet', message: "Variant 'Dog' was removed" }
+    ]);
+  });
+
+  it('should compare nullable references written as unions', () => {
+    const previous = change(spec => {
+      spec.openapi = '3.1.0';
+      spec.components.schemas.Address = {
+        type: 'object',
+        properties: { city: { type: 'string' }, zip: { type: 'string' } },
+        required: ['city', 'zip']
+      };
+      spec.components.schemas.User.properties.address = {
+        oneOf: [{ $ref: '#/components/schemas/Address' }, { type: 'null' }]
+      };
+    });
+    const current = JSON.parse(JSON.stringify(previous));
+    delete current.components.schemas.Address.properties.zip;
+    current.components.schemas.Address.required = ['city'];
+    current.components.schemas.User.properties.manager = {
+      oneOf: [{ $ref: '#/components/schemas/User' }, { type: 'null' }]
+    };
+
+    expect(diffSpecs(previous, current).map(({ code, breaking, location, message }) => ({ code, breaking, location, message }))).toEqual([
+      { code: 'variant-added', breaking: true, location: 'response.200.body.manager', message: "Variant 'null' was added" },
+      { code: 'property-removed', breaking: true, location: 'response.200.body.address.zip', message: "Property 'zip' was removed" }
+    ]);
+  });
+});
+
+describe('formatChanges', () => {
+  const CHANGES = [
+    { code: 'path-added' as const, breaking: false, message: "Path '/orders' was added" },
+    {
+      code: 'property-removed' as const,
+      breaking: true,
+      operation: 'GET /users/{userId}',
+      location: 'response.200.body.email',
+      message: "Property 'email' was removed"
+    }
+  ];
+
+  it('should list breaking changes first in the text report', () => {
+    expect(formatChanges(CHANGES)).toBe([
+      'Breaking changes:',
+      "  [property-removed] GET /users/{userId} response.200.body.email: Property 'email' was removed",
+      '',
+      'Non-breaking changes:',
+      "  [path-added] Path '/orders' was added",
+      '',
+      '1 breaking, 1 non-breaking change(s)'
+    ].join('\n'));
+    expect(formatChanges([])).toBe('No changes');
+  });
+
+  it('should render a JSON report', () => {
+    expect(JSON.parse(formatChanges(CHANGES, 'json'))).toEqual({
+      breaking: 1,
+      nonBreaking: 1,
+      changes: [CHANGES[1], CHANGES[0]]
+    });
+  });
+});
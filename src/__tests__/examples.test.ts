@@ -0,0 +1,129 @@
+import { OpenAPIObject, SchemaObject } from 'openapi3-ts';
+import { generateExample } from '../examples';
+
+describe('generateExample', () => {
+  const SPEC: OpenAPIObject = {
+    openapi: '3.0.0',
+    info: { title: 'Test API', version: '1.0.0' },
+    paths: {},
+    components: {
+      schemas: {
+        User: {
+          type: 'object',
+          properties: {
+            id: { type: 'number', readOnly: true },
+            email: { type: 'string' },
+            password: { type: 'string', writeOnly: true },
+            createdAt: { type: 'string', format: 'date-time' },
+            role: { type: 'string', enum: ['admin', 'user'] },
+            manager: { $ref: '#/components/schemas/User' }
+          },
+          required: ['id', 'email', 'role']
+        },
+        Post: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', format: 'uuid' },
+            title: { type: 'string', maxLength: 8 },
+            author: { $ref: '#/components/schemas/User' },
+            tags: { type: 'array', items: { type: 'string' }, minItems: 2 },
+            status: { type: 'string', default: 'draft' }
+          }
+        }
+      }
+    }
+  };
+
+  it('should synthesize realistic values from formats and property names', () => {
+    const example = generateExample({ $ref: '#/components/schemas/User' }, SPEC) as Record<string, unknown>;
+
+    expect(Object.keys(example)).toEqual(['id', 'email', 'password', 'createdAt', 'role']);
+    expect(Number.isInteger(example.id)).toBe(true);
+    expect(example.email).toMatch(/^[a-z]+\.[a-z]+@example\.com$/);
+    expect(example.createdAt).toMatch(/^2024-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}Z$/);
+    expect(['admin', 'user']).toContain(example.role);
+  });
+
+  it('should be deterministic for a seed', () => {
+    const schema = { $ref: '#/components/schemas/Post' };
+
+    expect(generateExample(schema, SPEC, { seed: 42 })).toEqual(generateExample(schema, SPEC, { seed: 42 }));
+    expect(generateExample(schema, SPEC, { seed: 42 })).not.toEqual(generateExample(schema, SPEC, { seed: 43 }));
+  });
+
+  it('should follow references, stop at recursion and honour constraints', () => {
+    const post = generateExample({ $ref: '#/components/schemas/Post' }, SPEC) as Record<string, any>;
+
+    expect(post.id).toMatch(/^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-8[0-9a-f]{3}-[0-9a-f]{12}$/);
+    expect(post.title.length).toBeLessThanOrEqual(8);
+    expect(post.author.manager).toBeUndefined();
+    expect(post.tags).toHaveLength(2);
+    expect(post.status).toBe('draft');
+  });
+
+  it('should leave out readOnly properties in requests and writeOnly ones in responses', () => {
+    const user = { $ref: '#/components/schemas/User' };
+
+    expect(generateExample(user, SPEC, { direction: 'request' })).not.toHaveProperty('id');
+    expect(generateExample(user, SPEC, { direction: 'request' })).toHaveProperty('password');
+    expect(generateExample(user, SPEC, { direction: 'response' })).toHaveProperty('id');
+    expect(generateExample(user, SPEC, { direction: 'response' })).not.toHaveProperty('password');
+  });
+
+  it('should keep numbers within their bounds', () => {
+    const schema: SchemaObject = {
+      type: 'object',
+      properties: {
+        page: { type: 'integer', minimum: 0, maximum: 1, exclusiveMinimum: true },
+        quantity: { type: 'number', minimum: 10, maximum: 100, multipleOf: 25 },
+        price: { type: 'number', minimum: 0.5, maximum: 0.75 },
+        discount: { type: 'number', exclusiveMaximum: 3 } as SchemaObject
+      }
+    };
+
+    for (let seed = 0; seed < 20; seed++) {
+      const example = generateExample(schema, SPEC, { seed }) as Record<string, number>;
+      expect(example.page).toBe(1);
+      expect([25, 50, 75, 100]).toContain(example.quantity);
+      expect(example.price).toBeGreaterThanOrEqual(0.5);
+      expect(example.price).toBeLessThanOrEqual(0.75);
+      expect(example.discount).toBeLessThan(3);
+    }
+  });
+
+  it('should fill every position of a tuple', () => {
+    const schema = {
+      type: 'array',
+      prefixItems: [{ type: 'string', format: 'date' }, { type: 'integer' }, { $ref: '#/components/schemas/Post' }],
+      minItems: 3,
+      maxItems: 3
+    } as SchemaObject;
+
+    const example = generateExample(schema, SPEC) as unknown[];
+    expect(example).toHaveLength(3);
+    expect(example[0]).toMatch(/^2024-\d{2}-\d{2}$/);
+    expect(Number.isInteger(example[1])).toBe(true);
+    expect(example[2]).toHaveProperty('status', 'draft');
+  });
+
+  it('should prefer example values and combine schema compositions', () => {
+    const schema = {
+      allOf: [
+        { $ref: '#/components/schemas/Post' },
+        {
+          type: 'object',
+          properties: {
+            sku: { type: 'string', example: 'ABC-1234' },
+            deletedAt: { oneOf: [{ type: 'null' }, { type: 'string', format: 'date' }] },
+            code: { type: ['null', 'integer'], examples: [7] }
+          }
+        }
+      ]
+    } as SchemaObject;
+
+    const example = generateExample(schema, SPEC) as Record<string, unknown>;
+    expect(example).toMatchObject({ status: 'draft', sku: 'ABC-1234', code: 7 });
+    expect(example.deletedAt).toMatch(/^2024-\d{2}-\d{2}$/);
+    expect(generateExample({ type: 'string', format: 'binary' }, SPEC)).toBeUndefined();
+  });
+});
@@ -0,0 +1,16 @@
+export enum Currency {
+  EUR = 'EUR',
+  GBP = 'GBP',
+  USD = 'USD'
+}
+
+export interface InvoiceLine {
+  description: string;
+  amount: number;
+}
+
+export interface Invoice {
+  id: string;
+  currency: Currency;
+  lines: InvoiceLine[];
+}
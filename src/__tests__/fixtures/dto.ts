@@ -0,0 +1,10 @@
+export class CreateOrderDto {
+  customerId!: string;
+  quantity!: number;
+  note?: string;
+  private submitted = false;
+
+  submit(): void {
+    this.submitted = true;
+  }
+}
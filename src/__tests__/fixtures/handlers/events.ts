@@ -0,0 +1,10 @@
+export type ApiEvent<TBody = string, TPath = Record<string, string>> = {
+  body: TBody;
+  pathParameters: TPath;
+  headers: Record<string, string>;
+};
+
+export type ApiResult<TStatus extends number, TBody> = {
+  statusCode: TStatus;
+  body: TBody;
+};
@@ -0,0 +1,13 @@
+import { ApiEvent } from './events';
+import { Post } from '../types';
+
+export const openapi = {
+  path: '/orders/{orderId}/posts',
+  method: 'put',
+  operationId: 'replaceOrderPosts',
+  tags: ['orders']
+} as const;
+
+export const handler = async (event: ApiEvent<Post[], { orderId: string }>): Promise<void> => {
+  console.log(event.pathParameters.orderId);
+};
@@ -0,0 +1,40 @@
+import { ApiEvent, ApiResult } from './events';
+import { CreateUserRequest, ErrorResponse, Paginated, User, UserPathParams } from '../types';
+
+/**
+ * Get a user by ID
+ * @route GET /users/{userId}
+ * @tags users
+ * @security bearerAuth
+ */
+export async function getUser(
+  event: ApiEvent<string, UserPathParams>
+): Promise<ApiResult<200, User> | ApiResult<404, ErrorResponse>> {
+  return { statusCode: 404, body: { code: 404, message: `User ${event.pathParameters.userId} not found` } };
+}
+
+/**
+ * @route POST /users
+ * @summary Create a user
+ * @response 201 User User created
+ * @response 400 ErrorResponse
+ * @response 409 Duplicate email address
+ * @response User Created elsewhere
+ */
+export const createUser = async (event: ApiEvent<CreateUserRequest>) => ({
+  statusCode: 201,
+  body: { id: 1, ...event.body }
+});
+
+/**
+ * @route GET /users
+ */
+export const listUsers = async (): Promise<Paginated<User>> => ({ items: [], total: 0 });
+
+/**
+ * @route FETCH users
+ */
+export const invalidRoute = async () => undefined;
+
+// Not annotated, so not a route
+export const helper = (value: string) => value.trim();
@@ -0,0 +1,4 @@
+export type Invoice = {
+  invoiceNumber: number;
+  total: number;
+};
@@ -0,0 +1 @@
+export { Shipment as ShipmentDetails } from './internal/shipment';
@@ -0,0 +1,4 @@
+export type Shipment = {
+  trackingNumber: string;
+  carrier: string;
+};
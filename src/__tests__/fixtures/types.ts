@@ -17,6 +17,23 @@ export type UserList = User[];
 export type UserQuery = {
   name?: string;
   email?: string;
+  /**
+   * Page number
+   * @minimum 1
+   */
+  page?: number;
+  type?: UserType;
+};
+
+export type UserPathParams = {
+  /** The ID of the user */
+  userId: number;
+};
+
+export type TraceHeaders = {
+  /** Correlation ID used for tracing */
+  'X-Correlation-Id': string;
+  'X-Api-Version'?: string;
 };
 
 export type CreateUserRequest = {
@@ -38,4 +55,175 @@ export type Post = {
 export type ErrorResponse = {
   code: number;
   message: string;
+};
+
+export type UserWithPosts = {
+  user: User;
+  posts: Post[];
+};
+
+export type TreeNode = {
+  id: number;
+  label: string;
+  children: TreeNode[];
+};
+
+export type Department = {
+  name: string;
+  manager: Employee;
+};
+
+export type Employee = {
+  name: string;
+  department: Department;
+};
+
+export type Status = 'active' | 'suspended' | 'deleted';
+
+export type Identifier = string | number;
+
+export type Timestamps = {
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type AuditedPost = Post & Timestamps;
+
+export type SearchResult = User | Post;
+
+export type OrderCreatedEvent = {
+  type: 'order.created';
+  orderId: string;
+  total: number;
+};
+
+export type OrderCancelledEvent = {
+  type: 'order.cancelled';
+  orderId: string;
+  reason: string;
+};
+
+export type OrderEvent = OrderCreatedEvent | OrderCancelledEvent;
+
+export type AccountSummary = {
+  status: Status;
+  reference: Identifier;
+  verified: boolean;
+  tier: 'free' | 'pro';
+};
+
+export type UserSettings = {
+  readonly userId: number;
+  nickname?: string;
+  bio: string | null;
+  avatarUrl: string | undefined;
+  manager: User | null;
+  tags: readonly string[];
+};
+
+/**
+ * A product listed in the catalogue
+ */
+export type Product = {
+  /**
+   * Stock keeping unit
+   * @pattern ^[A-Z]{3}-\d{4}$
+   * @example "ABC-1234"
+   */
+  sku: string;
+  /**
+   * @minimum 0
+   * @maximum 10000
+   */
+  price: number;
+  /**
+   * @exclusiveMinimum 0
+   * @exclusiveMaximum 1
+   */
+  discount?: number;
+  /** @minLength 1 */
+  name: string;
+  /** @format uri */
+  imageUrl?: string;
+  /** @default 1 */
+  quantity: number;
+  /**
+   * Replaced by `sku`
+   * @deprecated
+   */
+  legacyCode?: string;
+  /** Owner of the listing */
+  seller: User;
+};
+
+export type Paginated<T> = {
+  items: T[];
+  total: number;
+  nextCursor?: string;
+};
+
+export interface ApiEnvelope<T> {
+  data: T;
+  requestId: string;
+}
+
+export type UserDirectory = {
+  admins: Paginated<User>;
+  guests: Paginated<User>;
+  posts: Paginated<Post>;
+};
+
+export enum Priority {
+  Low,
+  Medium,
+  High
+}
+
+export enum MixedFlag {
+  No = 0,
+  Yes = 'yes'
+}
+
+/** @asType integer */
+export type Integer = number;
+
+/** @asType integer */
+export type PositiveInteger = number & { readonly __brand: 'PositiveInteger' };
+
+export type Email = string & { readonly __brand: 'Email' };
+
+export type Coordinates = [number, number];
+
+export type BuiltIns = {
+  createdAt: Date;
+  balance: bigint;
+  location: Coordinates;
+  entry: [string, number];
+  labels: Record<string, string>;
+  counters: { [key: string]: number };
+  lookup: Map<string, User>;
+  uniqueTags: Set<string>;
+  priority: Priority;
+  flag: MixedFlag;
+  kind: 'builtins';
+  version: 2;
+  count: Integer;
+  /** @asType integer */
+  retries: number;
+  positive: PositiveInteger;
+  email: Email;
+  metadata: unknown;
+  slug: `post-${string}`;
+};
+
+export type SessionToken = {
+  value: string;
+  marker: symbol;
+};
+
+export type AvatarUpload = {
+  userId: number;
+  caption?: string;
+  avatar: Buffer;
+  thumbnail: Blob;
 };
\ No newline at end of file
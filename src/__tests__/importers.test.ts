@@ -0,0 +1,69 @@
+import * as path from 'path';
+import { importCloudFormationRoutes, importRoutes, importServerlessRoutes } from '../importers';
+
+const fixture = (fileName: string) => path.join(__dirname, 'fixtures', 'infrastructure', fileName);
+
+describe('importers', () => {
+  const SUCCESS = [{ statusCode: 200, description: 'Success' }];
+
+  it('should import http and httpApi events from serverless.yml', () => {
+    const { routes, securitySchemes } = importServerlessRoutes(fixture('serverless.yml'));
+
+    expect(routes.map(route => `${route.method} ${route.path}`)).toEqual([
+      'get /users/{userId}',
+      'delete /users/{userId}',
+      'get /files/{proxy}',
+      'post /files/{proxy}',
+      'put /files/{proxy}',
+      'delete /files/{proxy}',
+      'patch /files/{proxy}',
+      'get /orders',
+      'post /orders'
+    ]);
+    expect(routes[0]).toEqual({
+      path: '/users/{userId}',
+      method: 'get',
+      security: ['authorize'],
+      responses: SUCCESS,
+      functionName: 'getUser'
+    });
+    expect(routes[1].security).toBeUndefined();
+    expect(routes[2].security).toEqual(['sigv4']);
+    expect(routes[7].security).toEqual(['jwtAuth']);
+    expect(securitySchemes).toEqual({
+      authorize: { type: 'apiKey', in: 'header', name: 'X-Auth-Token' },
+      sigv4: { type: 'apiKey', in: 'header', name: 'Authorization', description: 'AWS Signature Version 4' },
+      jwtAuth: { type: 'http', scheme: 'bearer', bearerFormat: 'JWT' }
+    });
+  });
+
+  it('should import Api events and authorizers from SAM templates', () => {
+    const { routes, securitySchemes } = importCloudFormationRoutes(fixture('template.yaml'));
+
+    expect(routes).toEqual([
+      { path: '/users/{userId}', method: 'get', security: ['CognitoAuth'], responses: SUCCESS, functionName: 'UsersFunction' },
+      { path: '/users', method: 'post', security: ['TokenAuth'], responses: SUCCESS, functionName: 'UsersFunction' },
+      { path: '/health', method: 'get', responses: SUCCESS, functionName: 'UsersFunction' },
+      { path: '/reports', method: 'get', security: ['sigv4'], responses: SUCCESS, functionName: 'ReportsFunction' }
+    ]);
+    expect(securitySchemes.CognitoAuth).toEqual({ type: 'http', scheme: 'bearer', bearerFormat: 'JWT' });
+    expect(securitySchemes.TokenAuth).toEqual({ type: 'apiKey', in: 'header', name: 'X-Auth-Token' });
+  });
+
+  it('should import API Gateway resources from cdk synth output', () => {
+    const { routes, securitySchemes } = importRoutes(fixture('cdk.template.json'));
+
+    expect(routes).toEqual([
+      { path: '/users/{userId}', method: 'get', security: ['UsersUserPoolAuthorizer'], responses: SUCCESS, functionName: 'UsersFunction1A2B3C' },
+      { path: '/users', method: 'post', security: ['sigv4'], responses: SUCCESS, functionName: 'UsersFunction1A2B3C' },
+      { path: '/orders/{orderId}', method: 'get', security: ['OrdersJwt'], responses: SUCCESS, functionName: 'UsersFunction1A2B3C' }
+    ]);
+    expect(Object.keys(securitySchemes)).toEqual(['UsersUserPoolAuthorizer', 'sigv4', 'OrdersJwt']);
+  });
+
+  it('should detect the file type and reject unknown files', () => {
+    expect(importRoutes(fixture('serverless.yml')).routes).toHaveLength(9);
+    expect(() => importRoutes(path.join(__dirname, '..', '..', 'package.json')))
+      .toThrow('is neither a Serverless Framework config nor a CloudFormation template');
+  });
+});
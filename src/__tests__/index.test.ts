@@ -1,6 +1,16 @@
-import { SchemaObject, ParameterObject, SecuritySchemeObject } from 'openapi3-ts';
+import { OpenAPIObject, SchemaObject, ReferenceObject, ParameterObject, SecuritySchemeObject } from 'openapi3-ts';
 import OpenAPIGenerator from '../index';
 import { RouteDefinition } from '../types';
+import * as path from 'path';
+
+// Follows a local `#/components/schemas/*` reference to the registered schema
+const resolveSchema = (spec: OpenAPIObject, schema: SchemaObject | ReferenceObject): SchemaObject => {
+  if ('$ref' in schema) {
+    const name = schema.$ref.replace('#/components/schemas/', '');
+    return spec.components?.schemas?.[name] as SchemaObject;
+  }
+  return schema;
+};
 
 describe('OpenAPIGenerator', () => {
   const TEST_CONFIG = {
@@ -20,7 +30,7 @@ describe('OpenAPIGenerator', () => {
       path: '/users',
       method: 'get',
       description: 'Get users',
-      requestType: 'UserQuery',
+      queryType: 'UserQuery',
       responses: [
         {
           statusCode: 200,
@@ -46,8 +56,8 @@ describe('OpenAPIGenerator', () => {
     expect(spec.info.version).toBe('1.0.0');
     expect(spec.paths['/users']).toBeDefined();
     expect(spec.paths['/users'].get).toBeDefined();
-    expect(spec.paths['/users'].get.requestBody).toBeDefined();
-    expect(spec.paths['/users'].get.requestBody.content['application/json'].schema).toBeDefined();
+    expect(spec.paths['/users'].get.requestBody).toBeUndefined();
+    expect(spec.paths['/users'].get.parameters.map((p: ParameterObject) => p.name)).toEqual(['name', 'email', 'page', 'type']);
     expect(spec.paths['/users'].get.responses['200'].content['application/json'].schema).toBeDefined();
   });
 
@@ -98,6 +108,28 @@ describe('OpenAPIGenerator', () => {
     fs.unlinkSync(tmpFile);
   });
 
+  it('should serialize and write the spec as YAML', async () => {
+    const fs = require('fs');
+    const tmpFile = path.join(__dirname, 'test-spec.yaml');
+
+    const generator = await OpenAPIGenerator.create(TEST_CONFIG);
+    generator.addRoute({
+      path: '/test',
+      method: 'get',
+      description: 'Test endpoint',
+      responses: [{ statusCode: 200, description: 'Success' }]
+    });
+
+    expect(generator.serializeSpec('yaml')).toContain('title: Test API');
+    expect(JSON.parse(generator.serializeSpec()).info.title).toBe('Test API');
+
+    generator.writeSpecToFile(tmpFile);
+    expect(fs.readFileSync(tmpFile, 'utf8')).toBe(generator.serializeSpec('yaml'));
+
+    // Cleanup
+    fs.unlinkSync(tmpFile);
+  });
+
   it('should generate correct schema for UserList type', async () => {
     const generator = await OpenAPIGenerator.create(TEST_CONFIG);
     
@@ -121,11 +153,14 @@ describe('OpenAPIGenerator', () => {
     expect(schema).toBeDefined();
     expect(schema.type).toBe('array');
     expect(schema.items).toBeDefined();
-    expect(schema.items.type).toBe('object');
-    expect(schema.items.properties).toBeDefined();
-    expect(schema.items.properties.id).toBeDefined();
-    expect(schema.items.properties.name).toBeDefined();
-    expect(schema.items.properties.email).toBeDefined();
+    expect(schema.items.$ref).toBe('#/components/schemas/User');
+
+    const itemSchema = resolveSchema(spec, schema.items);
+    expect(itemSchema.type).toBe('object');
+    expect(itemSchema.properties).toBeDefined();
+    expect(itemSchema.properties?.id).toBeDefined();
+    expect(itemSchema.properties?.name).toBeDefined();
+    expect(itemSchema.properties?.email).toBeDefined();
   });
 
   it('should include UserType enum in components schema', async () => {
@@ -157,9 +192,582 @@ describe('OpenAPIGenerator', () => {
     expect(userSchema.properties?.type).toBeDefined();
     
     // Check UserType enum schema
-    const userTypeRef = userSchema.properties?.type as SchemaObject;
-    expect(userTypeRef.type).toBe('string');
-    expect(userTypeRef.enum).toEqual(['admin', 'user', 'trial', 'guest']);
+    const userTypeRef = userSchema.properties?.type as ReferenceObject;
+    expect(userTypeRef.$ref).toBe('#/components/schemas/UserType');
+
+    const userTypeSchema = resolveSchema(spec, userTypeRef);
+    expect(userTypeSchema.type).toBe('string');
+    expect(userTypeSchema.enum).toEqual(['admin', 'user', 'trial', 'guest']);
+  });
+
+  it('should register nested object types as components', async () => {
+    const generator = await OpenAPIGenerator.create(TEST_CONFIG);
+
+    generator.addRoute({
+      path: '/users/{userId}/profile',
+      method: 'get',
+      responses: [{ statusCode: 200, description: 'Success', type: 'UserWithPosts' }]
+    });
+
+    const spec = generator.generateSpec();
+    const responseSchema = spec.paths['/users/{userId}/profile'].get.responses['200'].content['application/json'].schema;
+    expect(responseSchema.$ref).toBe('#/components/schemas/UserWithPosts');
+
+    const profileSchema = resolveSchema(spec, responseSchema);
+    expect(profileSchema.properties?.user).toEqual({ $ref: '#/components/schemas/User' });
+    expect(profileSchema.properties?.posts).toEqual({
+      type: 'array',
+      items: { $ref: '#/components/schemas/Post' }
+    });
+
+    const postSchema = spec.components?.schemas?.Post as SchemaObject;
+    expect(postSchema.type).toBe('object');
+    expect(Object.keys(postSchema.properties || {})).toEqual(['id', 'userId', 'title', 'content']);
+  });
+
+  it('should handle self-referencing and mutually recursive types', async () => {
+    const generator = await OpenAPIGenerator.create(TEST_CONFIG);
+
+    generator.addRoutes([
+      {
+        path: '/tree',
+        method: 'get',
+        responses: [{ statusCode: 200, description: 'Success', type: 'TreeNode' }]
+      },
+      {
+        path: '/employees/{employeeId}',
+        method: 'get',
+        responses: [{ statusCode: 200, description: 'Success', type: 'Employee' }]
+      }
+    ]);
+
+    const spec = generator.generateSpec();
+    const treeSchema = spec.components?.schemas?.TreeNode as SchemaObject;
+    expect(treeSchema.properties?.children).toEqual({
+      type: 'array',
+      items: { $ref: '#/components/schemas/TreeNode' }
+    });
+
+    const employeeSchema = spec.components?.schemas?.Employee as SchemaObject;
+    const departmentSchema = spec.components?.schemas?.Department as SchemaObject;
+    expect(employeeSchema.properties?.department).toEqual({ $ref: '#/components/schemas/Department' });
+    expect(departmentSchema.properties?.manager).toEqual({ $ref: '#/components/schemas/Employee' });
+  });
+
+  it('should map literal and primitive unions to enum and oneOf', async () => {
+    const generator = await OpenAPIGenerator.create(TEST_CONFIG);
+
+    generator.addRoute({
+      path: '/accounts/{accountId}',
+      method: 'get',
+      responses: [{ statusCode: 200, description: 'Success', type: 'AccountSummary' }]
+    });
+
+    const spec = generator.generateSpec();
+    const schemas = spec.components?.schemas || {};
+    const summarySchema = schemas.AccountSummary as SchemaObject;
+
+    expect(summarySchema.properties?.status).toEqual({ $ref: '#/components/schemas/Status' });
+    expect(schemas.Status).toEqual({ type: 'string', enum: ['active', 'suspended', 'deleted'] });
+    expect(schemas.Identifier).toEqual({ oneOf: [{ type: 'string' }, { type: 'number' }] });
+    expect(summarySchema.properties?.verified).toEqual({ type: 'boolean' });
+    expect(summarySchema.properties?.tier).toEqual({ type: 'string', enum: ['free', 'pro'] });
+  });
+
+  it('should map intersections to allOf', async () => {
+    const generator = await OpenAPIGenerator.create(TEST_CONFIG);
+
+    generator.addRoute({
+      path: '/posts/{postId}',
+      method: 'get',
+      responses: [{ statusCode: 200, description: 'Success', type: 'AuditedPost' }]
+    });
+
+    const spec = generator.generateSpec();
+    expect(spec.components?.schemas?.AuditedPost).toEqual({
+      allOf: [
+        { $ref: '#/components/schemas/Post' },
+        { $ref: '#/components/schemas/Timestamps' }
+      ]
+    });
+    expect((spec.components?.schemas?.Timestamps as SchemaObject).type).toBe('object');
+  });
+
+  it('should map discriminated unions to oneOf with a discriminator', async () => {
+    const generator = await OpenAPIGenerator.create(TEST_CONFIG);
+
+    generator.addRoute({
+      path: '/orders/events',
+      method: 'post',
+      requestType: 'OrderEvent',
+      responses: [{ statusCode: 202, description: 'Accepted' }]
+    });
+
+    const spec = generator.generateSpec();
+    expect(spec.components?.schemas?.OrderEvent).toEqual({
+      oneOf: [
+        { $ref: '#/components/schemas/OrderCreatedEvent' },
+        { $ref: '#/components/schemas/OrderCancelledEvent' }
+      ],
+      discriminator: {
+        propertyName: 'type',
+        mapping: {
+          'order.created': '#/components/schemas/OrderCreatedEvent',
+          'order.cancelled': '#/components/schemas/OrderCancelledEvent'
+        }
+      }
+    });
+  });
+
+  it('should map unions of object types without a discriminator to anyOf', async () => {
+    const generator = await OpenAPIGenerator.create(TEST_CONFIG);
+
+    generator.addRoute({
+      path: '/search',
+      method: 'get',
+      responses: [{ statusCode: 200, description: 'Success', type: 'SearchResult' }]
+    });
+
+    const spec = generator.generateSpec();
+    expect(spec.components?.schemas?.SearchResult).toEqual({
+      anyOf: [
+        { $ref: '#/components/schemas/User' },
+        { $ref: '#/components/schemas/Post' }
+      ]
+    });
+  });
+
+  it('should mark non-optional properties as required', async () => {
+    const generator = await OpenAPIGenerator.create(TEST_CONFIG);
+
+    generator.addRoute({
+      path: '/users',
+      method: 'post',
+      requestType: 'CreateUserRequest',
+      responses: [{ statusCode: 201, description: 'Created', type: 'User' }]
+    });
+
+    const spec = generator.generateSpec();
+    const schemas = spec.components?.schemas || {};
+    expect((schemas.User as SchemaObject).required).toEqual(['id', 'name', 'email', 'type']);
+    expect((schemas.CreateUserRequest as SchemaObject).required).toEqual(['name', 'email']);
+  });
+
+  it('should honor optional, nullable and readonly properties', async () => {
+    const generator = await OpenAPIGenerator.create(TEST_CONFIG);
+
+    generator.addRoute({
+      path: '/users/{userId}/settings',
+      method: 'get',
+      responses: [{ statusCode: 200, description: 'Success', type: 'UserSettings' }]
+    });
+
+    const spec = generator.generateSpec();
+    const settingsSchema = spec.components?.schemas?.UserSettings as SchemaObject;
+
+    expect(settingsSchema.required).toEqual(['userId', 'bio', 'manager', 'tags']);
+    expect(settingsSchema.properties?.userId).toEqual({ type: 'number', readOnly: true });
+    expect(settingsSchema.properties?.nickname).toEqual({ type: 'string' });
+    expect(settingsSchema.properties?.bio).toEqual({ type: 'string', nullable: true });
+    expect(settingsSchema.properties?.avatarUrl).toEqual({ type: 'string' });
+    expect(settingsSchema.properties?.manager).toEqual({
+      allOf: [{ $ref: '#/components/schemas/User' }],
+      nullable: true
+    });
+    expect(settingsSchema.properties?.tags).toEqual({ type: 'array', items: { type: 'string' } });
+  });
+
+  it('should not require any property of an all-optional type', async () => {
+    const generator = await OpenAPIGenerator.create(TEST_CONFIG);
+
+    generator.addRoute({
+      path: '/users/search',
+      method: 'post',
+      requestType: 'UserQuery',
+      responses: [{ statusCode: 200, description: 'Success', type: 'UserList' }]
+    });
+
+    const spec = generator.generateSpec();
+    const querySchema = spec.components?.schemas?.UserQuery as SchemaObject;
+    expect(querySchema.required).toBeUndefined();
+    expect(querySchema.properties?.name).toEqual({ type: 'string' });
+  });
+
+  it('should carry JSDoc descriptions and tags into schemas', async () => {
+    const generator = await OpenAPIGenerator.create(TEST_CONFIG);
+
+    generator.addRoute({
+      path: '/products/{productId}',
+      method: 'get',
+      responses: [{ statusCode: 200, description: 'Success', type: 'Product' }]
+    });
+
+    const spec = generator.generateSpec();
+    const productSchema = spec.components?.schemas?.Product as SchemaObject;
+
+    expect(productSchema.description).toBe('A product listed in the catalogue');
+    expect(productSchema.properties?.sku).toEqual({
+      type: 'string',
+      description: 'Stock keeping unit',
+      pattern: '^[A-Z]{3}-\\d{4}$',
+      example: 'ABC-1234'
+    });
+    expect(productSchema.properties?.price).toEqual({ type: 'number', minimum: 0, maximum: 10000 });
+    expect(productSchema.properties?.discount).toEqual({
+      type: 'number',
+      minimum: 0,
+      exclusiveMinimum: true,
+      maximum: 1,
+      exclusiveMaximum: true
+    });
+    expect(productSchema.properties?.name).toEqual({ type: 'string', minLength: 1 });
+    expect(productSchema.properties?.imageUrl).toEqual({ type: 'string', format: 'uri' });
+    expect(productSchema.properties?.quantity).toEqual({ type: 'number', default: 1 });
+    expect(productSchema.properties?.legacyCode).toEqual({
+      type: 'string',
+      description: 'Replaced by `sku`',
+      deprecated: true
+    });
+    expect(productSchema.properties?.seller).toEqual({
+      allOf: [{ $ref: '#/components/schemas/User' }],
+      description: 'Owner of the listing'
+    });
+  });
+
+  it('should resolve interfaces, classes and enums', async () => {
+    const generator = await OpenAPIGenerator.create(TEST_CONFIG);
+
+    generator.addRoutes([
+      {
+        path: '/orders',
+        method: 'post',
+        requestType: 'CreateOrderDto',
+        responses: [{ statusCode: 200, description: 'Success', type: 'Invoice' }]
+      },
+      {
+        path: '/currencies/default',
+        method: 'get',
+        responses: [{ statusCode: 200, description: 'Success', type: 'Currency' }]
+      }
+    ]);
+
+    const spec = generator.generateSpec();
+    const schemas = spec.components?.schemas || {};
+
+    expect(schemas.CreateOrderDto).toEqual({
+      type: 'object',
+      properties: {
+        customerId: { type: 'string' },
+        quantity: { type: 'number' },
+        note: { type: 'string' }
+      },
+      required: ['customerId', 'quantity']
+    });
+    expect((schemas.Invoice as SchemaObject).properties?.lines).toEqual({
+      type: 'array',
+      items: { $ref: '#/components/schemas/InvoiceLine' }
+    });
+    expect(schemas.Currency).toEqual({ type: 'string', enum: ['EUR', 'GBP', 'USD'] });
+  });
+
+  it('should resolve types that are only re-exported from a barrel file', async () => {
+    const generator = await OpenAPIGenerator.create(TEST_CONFIG);
+
+    generator.addRoute({
+      path: '/shipments/{shipmentId}',
+      method: 'get',
+      responses: [{ statusCode: 200, description: 'Success', type: 'ShipmentDetails' }]
+    });
+
+    const spec = generator.generateSpec();
+    const shipmentSchema = spec.components?.schemas?.ShipmentDetails as SchemaObject;
+    expect(shipmentSchema).toBeDefined();
+    expect(shipmentSchema.required).toEqual(['trackingNumber', 'carrier']);
+  });
+
+  it('should resolve module-qualified type references', async () => {
+    const generator = await OpenAPIGenerator.create(TEST_CONFIG);
+
+    generator.addRoutes([
+      {
+        path: '/invoices/{invoiceId}',
+        method: 'get',
+        responses: [{ statusCode: 200, description: 'Success', type: 'billing/models#Invoice' }]
+      },
+      {
+        path: '/legacy/invoices/{invoiceId}',
+        method: 'get',
+        responses: [{ statusCode: 200, description: 'Success', type: 'legacy/models#Invoice' }]
+      }
+    ]);
+
+    const spec = generator.generateSpec();
+    const billingInvoice = spec.components?.schemas?.Invoice as SchemaObject;
+    const legacyInvoice = spec.components?.schemas?.Invoice2 as SchemaObject;
+
+    expect(Object.keys(billingInvoice.properties || {})).toEqual(['id', 'currency', 'lines']);
+    expect(Object.keys(legacyInvoice.properties || {})).toEqual(['invoiceNumber', 'total']);
+    expect(spec.paths['/legacy/invoices/{invoiceId}'].get.responses['200'].content['application/json'].schema)
+      .toEqual({ $ref: '#/components/schemas/Invoice2' });
+  });
+
+  it('should throw when a module-qualified type cannot be found', async () => {
+    const generator = await OpenAPIGenerator.create(TEST_CONFIG);
+
+    expect(() => generator.addRoute({
+      path: '/invoices',
+      method: 'get',
+      responses: [{ statusCode: 200, description: 'Success', type: 'legacy/models#InvoiceLine' }]
+    })).toThrow("Type 'InvoiceLine' not found in module 'legacy/models'");
+  });
+
+  it('should resolve instantiated generic type references', async () => {
+    const generator = await OpenAPIGenerator.create(TEST_CONFIG);
+
+    generator.addRoutes([
+      {
+        path: '/users',
+        method: 'get',
+        responses: [{ statusCode: 200, description: 'Success', type: 'Paginated<User>' }]
+      },
+      {
+        path: '/posts',
+        method: 'post',
+        requestType: 'ApiEnvelope<Post[]>',
+        responses: [{ statusCode: 201, description: 'Created' }]
+      }
+    ]);
+
+    const spec = generator.generateSpec();
+    const schemas = spec.components?.schemas || {};
+
+    expect(spec.paths['/users'].get.responses['200'].content['application/json'].schema)
+      .toEqual({ $ref: '#/components/schemas/Paginated_User' });
+    expect(schemas.Paginated_User).toEqual({
+      type: 'object',
+      properties: {
+        items: { type: 'array', items: { $ref: '#/components/schemas/User' } },
+        total: { type: 'number' },
+        nextCursor: { type: 'string' }
+      },
+      required: ['items', 'total']
+    });
+    expect((schemas.ApiEnvelope_PostArray as SchemaObject).properties?.data).toEqual({
+      type: 'array',
+      items: { $ref: '#/components/schemas/Post' }
+    });
+  });
+
+  it('should name nested generic instantiations after their type arguments', async () => {
+    const generator = await OpenAPIGenerator.create(TEST_CONFIG);
+
+    generator.addRoutes([
+      {
+        path: '/directory',
+        method: 'get',
+        responses: [{ statusCode: 200, description: 'Success', type: 'UserDirectory' }]
+      },
+      {
+        path: '/users',
+        method: 'get',
+        responses: [{ statusCode: 200, description: 'Success', type: 'Paginated<User>' }]
+      }
+    ]);
+
+    const spec = generator.generateSpec();
+    const directorySchema = spec.components?.schemas?.UserDirectory as SchemaObject;
+
+    expect(directorySchema.properties?.admins).toEqual({ $ref: '#/components/schemas/Paginated_User' });
+    expect(directorySchema.properties?.guests).toEqual({ $ref: '#/components/schemas/Paginated_User' });
+    expect(directorySchema.properties?.posts).toEqual({ $ref: '#/components/schemas/Paginated_Post' });
+    expect(spec.components?.schemas?.Paginated_User2).toBeUndefined();
+  });
+
+  it('should throw when a generic type argument cannot be resolved', async () => {
+    const generator = await OpenAPIGenerator.create(TEST_CONFIG);
+
+    expect(() => generator.addRoute({
+      path: '/widgets',
+      method: 'get',
+      responses: [{ statusCode: 200, description: 'Success', type: 'Paginated<Widget>' }]
+    })).toThrow("Type 'Paginated<Widget>' could not be resolved");
+  });
+
+  it('should write array type references inline', async () => {
+    const generator = await OpenAPIGenerator.create(TEST_CONFIG);
+
+    generator.addRoutes([
+      {
+        path: '/posts',
+        method: 'put',
+        requestType: 'Post[]',
+        responses: [{ statusCode: 200, description: 'Success', type: 'Array<Post>' }]
+      },
+      {
+        path: '/pages',
+        method: 'get',
+        responses: [{ statusCode: 200, description: 'Success', type: 'Paginated<User>[]' }]
+      },
+      {
+        path: '/tags',
+        method: 'get',
+        responses: [{ statusCode: 200, description: 'Success', type: 'Array<string>' }]
+      }
+    ]);
+
+    const spec = generator.generateSpec();
+    const postArray = { type: 'array', items: { $ref: '#/components/schemas/Post' } };
+
+    expect(spec.paths['/posts'].put.requestBody.content['application/json'].schema).toEqual(postArray);
+    expect(spec.paths['/posts'].put.responses['200'].content['application/json'].schema).toEqual(postArray);
+    expect(spec.paths['/pages'].get.responses['200'].content['application/json'].schema)
+      .toEqual({ type: 'array', items: { $ref: '#/components/schemas/Paginated_User' } });
+    expect(spec.paths['/tags'].get.responses['200'].content['application/json'].schema)
+      .toEqual({ type: 'array', items: { type: 'string' } });
+    expect(Object.keys(spec.components?.schemas || {}).filter(name => name.startsWith('Array'))).toEqual([]);
+  });
+
+  it('should map built-in and primitive types', async () => {
+    const generator = await OpenAPIGenerator.create(TEST_CONFIG);
+
+    generator.addRoute({
+      path: '/builtins',
+      method: 'get',
+      responses: [{ statusCode: 200, description: 'Success', type: 'BuiltIns' }]
+    });
+
+    const spec = generator.generateSpec();
+    const schemas = spec.components?.schemas || {};
+    const properties = (schemas.BuiltIns as SchemaObject).properties || {};
+
+    expect(properties.createdAt).toEqual({ type: 'string', format: 'date-time' });
+    expect(properties.balance).toEqual({ type: 'integer', format: 'int64' });
+    expect(schemas.Coordinates).toEqual({ type: 'array', items: { type: 'number' }, minItems: 2, maxItems: 2 });
+    expect(properties.entry).toEqual({
+      type: 'array',
+      items: { oneOf: [{ type: 'string' }, { type: 'number' }] },
+      minItems: 2,
+      maxItems: 2
+    });
+    expect(properties.labels).toEqual({ type: 'object', additionalProperties: { type: 'string' } });
+    expect(properties.counters).toEqual({ type: 'object', additionalProperties: { type: 'number' } });
+    expect(properties.lookup).toEqual({ type: 'object', additionalProperties: { $ref: '#/components/schemas/User' } });
+    expect(properties.uniqueTags).toEqual({ type: 'array', items: { type: 'string' }, uniqueItems: true });
+    expect(properties.kind).toEqual({ type: 'string', enum: ['builtins'] });
+    expect(properties.version).toEqual({ type: 'number', enum: [2] });
+    expect(properties.metadata).toEqual({});
+    expect(properties.slug).toEqual({ type: 'string' });
+  });
+
+  it('should keep the value types of numeric and mixed enums', async () => {
+    const generator = await OpenAPIGenerator.create(TEST_CONFIG);
+
+    generator.addRoute({
+      path: '/builtins',
+      method: 'get',
+      responses: [{ statusCode: 200, description: 'Success', type: 'BuiltIns' }]
+    });
+
+    const spec = generator.generateSpec();
+    expect(spec.components?.schemas?.Priority).toEqual({ type: 'number', enum: [0, 1, 2] });
+    expect(spec.components?.schemas?.MixedFlag).toEqual({
+      oneOf: [
+        { type: 'number', enum: [0] },
+        { type: 'string', enum: ['yes'] }
+      ]
+    });
+  });
+
+  it('should map branded and @asType annotated types', async () => {
+    const generator = await OpenAPIGenerator.create(TEST_CONFIG);
+
+    generator.addRoute({
+      path: '/builtins',
+      method: 'get',
+      responses: [{ statusCode: 200, description: 'Success', type: 'BuiltIns' }]
+    });
+
+    const spec = generator.generateSpec();
+    const schemas = spec.components?.schemas || {};
+    const properties = (schemas.BuiltIns as SchemaObject).properties || {};
+
+    expect(properties.count).toEqual({ type: 'integer' });
+    expect(properties.retries).toEqual({ type: 'integer' });
+    expect(properties.positive).toEqual({ type: 'integer' });
+    expect(properties.email).toEqual({ $ref: '#/components/schemas/Email' });
+    expect(schemas.Email).toEqual({ type: 'string' });
+  });
+
+  it('should discover routes from annotated handlers and route constants', async () => {
+    const generator = await OpenAPIGenerator.create(TEST_CONFIG);
+    const routes = generator.discoverRoutes();
+
+    expect(routes).toEqual([
+      {
+        path: '/orders/{orderId}/posts',
+        method: 'put',
+        operationId: 'replaceOrderPosts',
+        tags: ['orders'],
+        requestType: 'Array<fixtures/types#Post>',
+        responses: [{ statusCode: 204, description: 'Success' }]
+      },
+      {
+        path: '/users/{userId}',
+        method: 'get',
+        description: 'Get a user by ID',
+        tags: ['users'],
+        security: ['bearerAuth'],
+        pathParamsType: 'fixtures/types#UserPathParams',
+        responses: [
+          { statusCode: 200, description: 'Success', type: 'fixtures/types#User' },
+          { statusCode: 404, description: 'Error', type: 'fixtures/types#ErrorResponse' }
+        ]
+      },
+      {
+        path: '/users',
+        method: 'post',
+        summary: 'Create a user',
+        requestType: 'fixtures/types#CreateUserRequest',
+        responses: [
+          { statusCode: 201, description: 'User created', type: 'User' },
+          { statusCode: 400, description: 'Error', type: 'ErrorResponse' },
+          { statusCode: 409, description: 'Duplicate email address' }
+        ]
+      },
+      {
+        path: '/users',
+        method: 'get',
+        responses: [{ statusCode: 200, description: 'Success', type: 'fixtures/types#Paginated<fixtures/types#User>' }]
+      }
+    ]);
+    expect(generator.getDiagnostics()).toEqual([
+      {
+        code: 'invalid-route-annotation',
+        message: "Expected '@response <status> [Type] [description]' with a 3-digit status, " +
+          "found '@response User Created elsewhere'",
+        file: path.join('src', '__tests__', 'fixtures', 'handlers', 'users.ts'),
+        line: 22
+      },
+      {
+        code: 'invalid-route-annotation',
+        message: "Expected '@route <METHOD> /path', found '@route FETCH users'",
+        file: path.join('src', '__tests__', 'fixtures', 'handlers', 'users.ts'),
+        line: 35
+      }
+    ]);
+
+    generator.addSecurityScheme('bearerAuth', { type: 'http', scheme: 'bearer' });
+    generator.addRoutes(routes);
+
+    const spec = generator.generateSpec();
+    expect(spec.paths['/users/{userId}'].get.parameters[0].schema).toEqual({ type: 'number' });
+    expect(spec.paths['/users/{userId}'].get.responses['200'].content['application/json'].schema)
+      .toEqual({ $ref: '#/components/schemas/User' });
+    expect(spec.paths['/users'].get.responses['200'].content['application/json'].schema)
+      .toEqual({ $ref: '#/components/schemas/Paginated_User' });
+    expect(spec.paths['/orders/{orderId}/posts'].put.requestBody.content['application/json'].schema)
+      .toEqual({ type: 'array', items: { $ref: '#/components/schemas/Post' } });
+    expect(generator.getDiagnostics()).toHaveLength(2);
   });
 
   it('should properly handle path parameters', async () => {
@@ -230,6 +838,201 @@ describe('OpenAPIGenerator', () => {
     expect(multiParams[1].required).toBe(true);
   });
 
+  it('should derive query, path and header parameters from types', async () => {
+    const generator = await OpenAPIGenerator.create(TEST_CONFIG);
+
+    generator.addRoute({
+      path: '/users/{userId}/posts',
+      method: 'get',
+      pathParamsType: 'UserPathParams',
+      queryType: 'UserQuery',
+      headersType: 'TraceHeaders',
+      responses: [{ statusCode: 200, description: 'Success', type: 'Paginated<Post>' }]
+    });
+
+    const spec = generator.generateSpec();
+    const parameters = spec.paths['/users/{userId}/posts'].get.parameters as ParameterObject[];
+
+    expect(parameters.find(p => p.name === 'userId')).toEqual({
+      name: 'userId',
+      in: 'path',
+      required: true,
+      schema: { type: 'number' },
+      description: 'The ID of the user'
+    });
+    expect(parameters.find(p => p.name === 'page')).toEqual({
+      name: 'page',
+      in: 'query',
+      required: false,
+      schema: { type: 'number', minimum: 1 },
+      description: 'Page number'
+    });
+    expect(parameters.find(p => p.name === 'type')).toEqual({
+      name: 'type',
+      in: 'query',
+      required: false,
+      schema: { $ref: '#/components/schemas/UserType' }
+    });
+    expect(parameters.find(p => p.name === 'X-Correlation-Id')).toEqual({
+      name: 'X-Correlation-Id',
+      in: 'header',
+      required: true,
+      schema: { type: 'string' },
+      description: 'Correlation ID used for tracing'
+    });
+    expect(parameters.find(p => p.name === 'X-Api-Version')?.required).toBe(false);
+  });
+
+  it('should let explicit parameters override type-derived ones', async () => {
+    const generator = await OpenAPIGenerator.create(TEST_CONFIG);
+
+    generator.addRoute({
+      path: '/users',
+      method: 'get',
+      queryType: 'UserQuery',
+      queryParameters: {
+        page: {
+          required: true,
+          schema: { type: 'integer', minimum: 1 },
+          description: 'Page to fetch'
+        }
+      },
+      headersType: 'TraceHeaders',
+      headers: {
+        request: [{ name: 'x-api-version', required: true, schema: { type: 'string' } }]
+      },
+      responses: [{ statusCode: 200, description: 'Success', type: 'UserList' }]
+    });
+
+    const spec = generator.generateSpec();
+    const parameters = spec.paths['/users'].get.parameters as ParameterObject[];
+
+    expect(parameters.filter(p => p.name === 'page')).toEqual([{
+      name: 'page',
+      in: 'query',
+      required: true,
+      schema: { type: 'integer', minimum: 1 },
+      description: 'Page to fetch'
+    }]);
+    expect(parameters.filter(p => p.name.toLowerCase() === 'x-api-version')).toHaveLength(1);
+  });
+
+  it('should describe bodies under multiple media types', async () => {
+    const generator = await OpenAPIGenerator.create(TEST_CONFIG);
+
+    generator.addRoutes([
+      {
+        path: '/users/{userId}/avatar',
+        method: 'put',
+        requestType: 'AvatarUpload',
+        requestContentTypes: ['multipart/form-data', 'application/json'],
+        requestEncoding: { avatar: { contentType: 'image/png, image/jpeg' } },
+        responses: [{ statusCode: 204, description: 'Avatar updated' }]
+      },
+      {
+        path: '/users/export',
+        method: 'get',
+        responses: [
+          { statusCode: 200, description: 'Users', type: 'UserList', contentTypes: ['application/vnd.acme.v1+json', 'text/csv'] },
+          { statusCode: 202, description: 'Export started' }
+        ]
+      },
+      {
+        path: '/users/archive',
+        method: 'post',
+        requestContentTypes: ['application/octet-stream'],
+        responses: [{ statusCode: 200, description: 'Report', contentTypes: ['text/csv'] }]
+      }
+    ]);
+
+    const spec = generator.generateSpec();
+    const upload = spec.paths['/users/{userId}/avatar'].put;
+    expect(upload.requestBody.content).toEqual({
+      'multipart/form-data': {
+        schema: { $ref: '#/components/schemas/AvatarUpload' },
+        encoding: { avatar: { contentType: 'image/png, image/jpeg' } }
+      },
+      'application/json': { schema: { $ref: '#/components/schemas/AvatarUpload' } }
+    });
+    expect((spec.components?.schemas?.AvatarUpload as SchemaObject).properties).toEqual({
+      userId: { type: 'number' },
+      caption: { type: 'string' },
+      avatar: { type: 'string', format: 'binary' },
+      thumbnail: { type: 'string', format: 'binary' }
+    });
+    expect(upload.responses['204']).toEqual({ description: 'Avatar updated' });
+
+    const exported = spec.paths['/users/export'].get.responses;
+    expect(Object.keys(exported['200'].content)).toEqual(['application/vnd.acme.v1+json', 'text/csv']);
+    expect(exported['200'].content['text/csv'].schema).toEqual(exported['200'].content['application/vnd.acme.v1+json'].schema);
+    expect(exported['202'].content).toBeUndefined();
+
+    const archive = spec.paths['/users/archive'].post;
+    expect(archive.requestBody.content).toEqual({
+      'application/octet-stream': { schema: { type: 'string', format: 'binary' } }
+    });
+    expect(archive.responses['200'].content).toEqual({ 'text/csv': { schema: { type: 'string' } } });
+  });
+
+  it('should add operation metadata and tag definitions', async () => {
+    const generator = await OpenAPIGenerator.create(TEST_CONFIG);
+
+    generator
+      .addTag({ name: 'users', description: 'User management' })
+      .addTag({ name: 'users', description: 'Users and their settings' })
+      .addRoutes([
+        {
+          path: '/users/{userId}',
+          method: 'get',
+          summary: 'Get a user',
+          tags: ['users'],
+          deprecated: true,
+          externalDocs: { url: 'https://docs.example.com/users' },
+          responses: [{ statusCode: 200, description: 'Success', type: 'User' }]
+        },
+        {
+          path: '/users/{userId}/user-settings',
+          method: 'put',
+          responses: [{ statusCode: 204, description: 'Updated' }]
+        },
+        {
+          path: '/users',
+          method: 'post',
+          operationId: 'createUser',
+          responses: [{ statusCode: 201, description: 'Created' }]
+        }
+      ]);
+
+    const spec = generator.generateSpec();
+    expect(spec.tags).toEqual([{ name: 'users', description: 'Users and their settings' }]);
+    expect(spec.paths['/users/{userId}'].get).toMatchObject({
+      tags: ['users'],
+      summary: 'Get a user',
+      operationId: 'getUsersByUserId',
+      deprecated: true,
+      externalDocs: { url: 'https://docs.example.com/users' }
+    });
+    expect(spec.paths['/users/{userId}/user-settings'].put.operationId).toBe('putUsersByUserIdUserSettings');
+    expect(spec.paths['/users/{userId}/user-settings'].put.tags).toBeUndefined();
+    expect(spec.paths['/users'].post.operationId).toBe('createUser');
+    expect(generator.getDiagnostics()).toEqual([]);
+  });
+
+  it('should report duplicate operation IDs', async () => {
+    const generator = await OpenAPIGenerator.create(TEST_CONFIG);
+
+    generator.addRoutes([
+      { path: '/users', method: 'get', responses: [{ statusCode: 200, description: 'Success' }] },
+      { path: '/people', method: 'get', operationId: 'getUsers', responses: [{ statusCode: 200, description: 'Success' }] }
+    ]);
+
+    expect(generator.getDiagnostics()).toEqual([{
+      code: 'duplicate-operation-id',
+      route: 'GET /people',
+      message: "Operation ID 'getUsers' is already used by GET /users"
+    }]);
+  });
+
   it('should support security schemes', async () => {
     const generator = await OpenAPIGenerator.create(TEST_CONFIG);
     
@@ -259,6 +1062,84 @@ describe('OpenAPIGenerator', () => {
     expect(spec.paths['/secure-endpoint'].get.security).toBeDefined();
   });
 
+  it('should add API Gateway integrations, validators, CORS and authorizers', async () => {
+    const generator = await OpenAPIGenerator.create({
+      ...TEST_CONFIG,
+      apiGateway: {
+        integration: { lambdaArn: 'arn:aws:lambda:eu-west-1:123456789012:function:${functionName}' },
+        requestValidator: 'params-only',
+        cors: { allowOrigin: '*', allowHeaders: ['Content-Type'], maxAge: 600 }
+      }
+    });
+
+    generator.addSecurityScheme('tokenAuth', {
+      type: 'apiKey',
+      in: 'header',
+      name: 'Authorization',
+      authorizer: {
+        type: 'token',
+        lambdaArn: 'arn:aws:lambda:eu-west-1:123456789012:function:authorize',
+        identitySource: 'method.request.header.Authorization',
+        authorizerResultTtlInSeconds: 300
+      }
+    });
+    generator.addRoutes([
+      {
+        path: '/users/{userId}',
+        method: 'get',
+        security: ['tokenAuth'],
+        responses: [{ statusCode: 200, description: 'Success', type: 'User' }]
+      },
+      {
+        path: '/users/{userId}',
+        method: 'put',
+        requestType: 'CreateUserRequest',
+        integration: { functionName: 'update-user', proxy: false, timeoutInMillis: 5000 },
+        requestValidator: 'all',
+        responses: [{ statusCode: 400, description: 'Invalid' }, { statusCode: 204, description: 'Updated' }]
+      }
+    ]);
+
+    const spec = generator.generateSpec();
+    const pathItem = spec.paths['/users/{userId}'];
+
+    expect(spec['x-amazon-apigateway-request-validator']).toBe('params-only');
+    expect(spec['x-amazon-apigateway-request-validators'].all).toEqual({ validateRequestBody: true, validateRequestParameters: true });
+    expect(pathItem.get['x-amazon-apigateway-integration']).toEqual({
+      type: 'aws_proxy',
+      httpMethod: 'POST',
+      uri: 'arn:aws:apigateway:eu-west-1:lambda:path/2015-03-31/functions/arn:aws:lambda:eu-west-1:123456789012:function:getUsersByUserId/invocations'
+    });
+    expect(pathItem.put['x-amazon-apigateway-integration']).toEqual({
+      type: 'aws',
+      httpMethod: 'POST',
+      uri: 'arn:aws:apigateway:eu-west-1:lambda:path/2015-03-31/functions/arn:aws:lambda:eu-west-1:123456789012:function:update-user/invocations',
+      timeoutInMillis: 5000,
+      passthroughBehavior: 'when_no_templates',
+      responses: { default: { statusCode: '204' } }
+    });
+    expect(pathItem.put['x-amazon-apigateway-request-validator']).toBe('all');
+    expect(pathItem.options['x-amazon-apigateway-integration'].type).toBe('mock');
+    expect(pathItem.options['x-amazon-apigateway-integration'].responses.default.responseParameters).toEqual({
+      'method.response.header.Access-Control-Allow-Origin': "'*'",
+      'method.response.header.Access-Control-Allow-Methods': "'GET,PUT,OPTIONS'",
+      'method.response.header.Access-Control-Allow-Headers': "'Content-Type'",
+      'method.response.header.Access-Control-Max-Age': "'600'"
+    });
+    expect(spec.components?.securitySchemes?.tokenAuth).toEqual({
+      type: 'apiKey',
+      in: 'header',
+      name: 'Authorization',
+      'x-amazon-apigateway-authtype': 'custom',
+      'x-amazon-apigateway-authorizer': {
+        type: 'token',
+        identitySource: 'method.request.header.Authorization',
+        authorizerResultTtlInSeconds: 300,
+        authorizerUri: 'arn:aws:apigateway:eu-west-1:lambda:path/2015-03-31/functions/arn:aws:lambda:eu-west-1:123456789012:function:authorize/invocations'
+      }
+    });
+  });
+
   it('should support query parameters', async () => {
     const generator = await OpenAPIGenerator.create(TEST_CONFIG);
     
@@ -445,4 +1326,176 @@ describe('OpenAPIGenerator', () => {
     expect(schema.type).toBe('array');
     expect(schema.items).toBeDefined();
   });
-});
+
+  it('should collect diagnostics for inconsistent route definitions', async () => {
+    const generator = await OpenAPIGenerator.create(TEST_CONFIG);
+
+    generator.addRoutes([
+      {
+        path: '/users/{userId}',
+        method: 'get',
+        parameters: { postId: { description: 'Not in the path' } },
+        security: ['apiKey'],
+        requestType: 'CreateUserRequest',
+        responses: [{ statusCode: 200, description: 'Success', type: 'User' }]
+      },
+      {
+        path: '/users/{userId}',
+        method: 'get',
+        responses: [{ statusCode: 200, description: 'Success', type: 'User' }]
+      }
+    ]);
+
+    const diagnostics = generator.getDiagnostics();
+    expect(diagnostics.map(d => d.code)).toEqual([
+      'unknown-path-parameter',
+      'unknown-security-scheme',
+      'request-body-not-allowed',
+      'duplicate-route'
+    ]);
+    expect(diagnostics.every(d => d.route === 'GET /users/{userId}')).toBe(true);
+  });
+
+  it('should report unsupported types with their source location', async () => {
+    const generator = await OpenAPIGenerator.create(TEST_CONFIG);
+
+    generator.addRoute({
+      path: '/sessions',
+      method: 'post',
+      responses: [{ statusCode: 201, description: 'Created', type: 'SessionToken' }]
+    });
+
+    const spec = generator.generateSpec();
+    expect((spec.components?.schemas?.SessionToken as SchemaObject).properties?.marker).toEqual({ type: 'string' });
+
+    const [diagnostic] = generator.getDiagnostics();
+    expect(diagnostic.code).toBe('unsupported-type');
+    expect(diagnostic.route).toBe('POST /sessions');
+    expect(diagnostic.message).toContain("Type 'symbol' is not supported");
+    expect(diagnostic.file).toBe(path.join('src', '__tests__', 'fixtures', 'types.ts'));
+    expect(diagnostic.line).toBeGreaterThan(0);
+  });
+
+  it('should throw on diagnostics in strict mode', async () => {
+    const generator = await OpenAPIGenerator.create({ ...TEST_CONFIG, strict: true });
+
+    expect(() => generator.addRoute({
+      path: '/secure-endpoint',
+      method: 'get',
+      security: ['bearerAuth'],
+      responses: [{ statusCode: 200, description: 'Success' }]
+    })).toThrow("GET /secure-endpoint: Security scheme 'bearerAuth' has not been registered with addSecurityScheme");
+
+    generator.addSecurityScheme('bearerAuth', { type: 'http', scheme: 'bearer' });
+    generator.addRoute({
+      path: '/secure-endpoint',
+      method: 'get',
+      security: ['bearerAuth'],
+      responses: [{ statusCode: 200, description: 'Success' }]
+    });
+    expect(generator.getDiagnostics()).toHaveLength(1);
+  });
+
+  it('should emit JSON Schema 2020-12 keywords in OpenAPI 3.1 mode', async () => {
+    const generator = await OpenAPIGenerator.create({ ...TEST_CONFIG, openapiVersion: '3.1' });
+
+    generator.addRoutes([
+      {
+        path: '/users/{userId}/settings',
+        method: 'get',
+        responses: [{ statusCode: 200, description: 'Success', type: 'UserSettings' }]
+      },
+      {
+        path: '/products/{productId}',
+        method: 'get',
+        responses: [{ statusCode: 200, description: 'Success', type: 'Product' }]
+      },
+      {
+        path: '/builtins',
+        method: 'get',
+        responses: [{ statusCode: 200, description: 'Success', type: 'BuiltIns' }]
+      }
+    ]);
+
+    const spec = generator.generateSpec();
+    const schemas = spec.components?.schemas || {};
+    const settings = (schemas.UserSettings as SchemaObject).properties || {};
+    const product = (schemas.Product as SchemaObject).properties || {};
+    const builtIns = (schemas.BuiltIns as SchemaObject).properties || {};
+
+    expect(spec.openapi).toBe('3.1.0');
+    expect(settings.bio).toEqual({ type: ['string', 'null'] });
+    expect(settings.manager).toEqual({ oneOf: [{ $ref: '#/components/schemas/User' }, { type: 'null' }] });
+    expect(product.sku).toEqual({
+      type: 'string',
+      description: 'Stock keeping unit',
+      pattern: '^[A-Z]{3}-\\d{4}$',
+      examples: ['ABC-1234']
+    });
+    expect(product.seller).toEqual({ $ref: '#/components/schemas/User', description: 'Owner of the listing' });
+    expect(product.discount).toEqual({ type: 'number', exclusiveMinimum: 0, exclusiveMaximum: 1 });
+    expect(builtIns.kind).toEqual({ type: 'string', const: 'builtins' });
+    expect(schemas.Coordinates).toEqual({
+      type: 'array',
+      prefixItems: [{ type: 'number' }, { type: 'number' }],
+      minItems: 2,
+      maxItems: 2
+    });
+    expect(JSON.stringify(spec)).not.toContain('nullable');
+  });
+
+  it('should add webhooks in OpenAPI 3.1 mode only', async () => {
+    const generator = await OpenAPIGenerator.create({ ...TEST_CONFIG, openapiVersion: '3.1' });
+
+    generator.addWebhook('orderEvent', {
+      method: 'post',
+      description: 'Sent when an order changes',
+      requestType: 'OrderEvent',
+      responses: [{ statusCode: 200, description: 'Event received' }]
+    });
+
+    const spec = generator.generateSpec();
+    expect(spec.webhooks?.orderEvent.post?.description).toBe('Sent when an order changes');
+    expect(spec.webhooks?.orderEvent.post?.requestBody).toEqual({
+      content: { 'application/json': { schema: { $ref: '#/components/schemas/OrderEvent' } } },
+      required: true
+    });
+    expect(spec.components?.schemas?.OrderCreatedEvent).toBeDefined();
+
+    const legacy = await OpenAPIGenerator.create(TEST_CONFIG);
+    expect(legacy.generateSpec().openapi).toBe('3.0.0');
+    expect(() => legacy.addWebhook('orderEvent', {
+      method: 'post',
+      responses: [{ statusCode: 200, description: 'Event received' }]
+    })).toThrow("Webhook 'orderEvent' requires OpenAPI 3.1");
+  });
+
+  it('should add synthesized examples to request and response content', async () => {
+    const generator = await OpenAPIGenerator.create({ ...TEST_CONFIG, examples: { seed: 42 } });
+
+    generator.addRoute({
+      path: '/products',
+      method: 'post',
+      requestType: 'CreateUserRequest',
+      responses: [
+        { statusCode: 201, description: 'Created', type: 'Product' },
+        { statusCode: 204, description: 'No content' }
+      ]
+    });
+
+    const operation = generator.generateSpec().paths['/products'].post;
+    const request = operation.requestBody.content['application/json'].example;
+    expect(request).toEqual({ name: expect.any(String), email: expect.stringMatching(/@example\.com$/) });
+
+    const product = operation.responses['201'].content['application/json'].example;
+    expect(product).toMatchObject({ sku: 'ABC-1234', quantity: 1, seller: { type: expect.any(String) } });
+    expect(product.price).toBeGreaterThanOrEqual(0);
+    expect(product.price).toBeLessThanOrEqual(10000);
+    expect(product.imageUrl).toMatch(/^https:\/\//);
+    expect(operation.responses['204'].content).toBeUndefined();
+
+    const again = await OpenAPIGenerator.create({ ...TEST_CONFIG, examples: { seed: 42 } });
+    again.addRoute({ path: '/products', method: 'get', responses: [{ statusCode: 200, description: 'Success', type: 'Product' }] });
+    expect(again.generateSpec().paths['/products'].get.responses['200'].content['application/json'].example).toEqual(product);
+  });
+});
\ No newline at end of file
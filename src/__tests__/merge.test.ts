@@ -0,0 +1,164 @@
+import { OpenAPIObject } from 'openapi3-ts';
+import { mergeSpecs } from '../merge';
+
+describe('mergeSpecs', () => {
+  const USERS: OpenAPIObject = {
+    openapi: '3.0.0',
+    info: { title: 'Users', version: '1.0.0' },
+    servers: [{ url: 'https://users.example.com' }],
+    tags: [{ name: 'users', description: 'User management' }],
+    security: [{ bearerAuth: [] }],
+    paths: {
+      '/': {
+        get: {
+          operationId: 'listUsers',
+          responses: {
+            '200': {
+              description: 'Success',
+              content: { 'application/json': { schema: { type: 'array', items: { $ref: '#/components/schemas/User' } } } }
+            }
+          }
+        }
+      },
+      '/{userId}': {
+        get: {
+          operationId: 'getItem',
+          responses: { '404': { description: 'Not found', content: { 'application/json': { schema: { $ref: '#/components/schemas/ErrorResponse' } } } } }
+        }
+      }
+    },
+    components: {
+      schemas: {
+        User: {
+          type: 'object',
+          properties: { id: { type: 'number' }, email: { type: 'string' } },
+          required: ['id', 'email']
+        },
+        ErrorResponse: { type: 'object', properties: { message: { type: 'string' } } }
+      },
+      securitySchemes: {
+        bearerAuth: { type: 'http', scheme: 'bearer' }
+      }
+    }
+  };
+
+  const BILLING: OpenAPIObject = {
+    openapi: '3.0.0',
+    info: { title: 'Billing', version: '2.0.0' },
+    servers: [{ url: 'https://billing.example.com' }, { url: 'https://users.example.com' }],
+    tags: [{ name: 'users', description: 'Billing accounts' }, { name: 'invoices' }],
+    paths: {
+      '/invoices/{invoiceId}': {
+        get: {
+          operationId: 'getItem',
+          security: [{ bearerAuth: [] }],
+          responses: {
+            '200': {
+              description: 'Success',
+              content: { 'application/json': { schema: { $ref: '#/components/schemas/Invoice' } } }
+            },
+            '404': { description: 'Not found', content: { 'application/json': { schema: { $ref: '#/components/schemas/ErrorResponse' } } } }
+          }
+        }
+      }
+    },
+    components: {
+      schemas: {
+        Invoice: {
+          type: 'object',
+          properties: { owner: { $ref: '#/components/schemas/User' } }
+        },
+        User: {
+          type: 'object',
+          properties: { accountId: { type: 'string' } }
+        },
+        ErrorResponse: { type: 'object', properties: { message: { type: 'string' } } }
+      },
+      securitySchemes: {
+        bearerAuth: { type: 'apiKey', in: 'header', name: 'X-Api-Key' }
+      }
+    }
+  };
+
+  const merge = () => mergeSpecs(
+    [
+      { name: 'users', spec: USERS, pathPrefix: '/users' },
+      { name: 'billing', spec: BILLING, pathPrefix: 'billing/' }
+    ],
+    { title: 'Gateway', version: '1.0.0', servers: [{ url: 'https://api.example.com' }] }
+  );
+
+  it('should prefix paths per service', () => {
+    const { spec } = merge();
+
+    expect(spec.info).toEqual({ title: 'Gateway', version: '1.0.0' });
+    expect(Object.keys(spec.paths)).toEqual(['/users', '/users/{userId}', '/billing/invoices/{invoiceId}']);
+  });
+
+  it('should share identical schemas and namespace conflicting ones', () => {
+    const { spec, conflicts } = merge();
+
+    expect(Object.keys(spec.components?.schemas || {})).toEqual(['User', 'ErrorResponse', 'Invoice', 'BillingUser']);
+    expect(spec.components?.schemas?.Invoice).toEqual({
+      type: 'object',
+      properties: { owner: { $ref: '#/components/schemas/BillingUser' } }
+    });
+    expect(spec.paths['/billing/invoices/{invoiceId}'].get.responses['404'].content['application/json'].schema)
+      .toEqual({ $ref: '#/components/schemas/ErrorResponse' });
+    expect(conflicts).toContainEqual({
+      code: 'component-renamed',
+      source: 'billing',
+      message: "schemas 'User' differs from another service's and was renamed to 'BillingUser'"
+    });
+  });
+
+  it('should rename conflicting security schemes in security requirements', () => {
+    const { spec } = merge();
+
+    expect(spec.components?.securitySchemes).toEqual({
+      bearerAuth: { type: 'http', scheme: 'bearer' },
+      BillingBearerAuth: { type: 'apiKey', in: 'header', name: 'X-Api-Key' }
+    });
+    expect(spec.security).toBeUndefined();
+    expect(spec.paths['/users'].get.security).toEqual([{ bearerAuth: [] }]);
+    expect(spec.paths['/billing/invoices/{invoiceId}'].get.security).toEqual([{ BillingBearerAuth: [] }]);
+  });
+
+  it('should merge servers and tags and report conflicts', () => {
+    const { spec, conflicts } = merge();
+
+    expect(spec.servers).toEqual([
+      { url: 'https://api.example.com' },
+      { url: 'https://users.example.com' },
+      { url: 'https://billing.example.com' }
+    ]);
+    expect(spec.tags).toEqual([{ name: 'users', description: 'User management' }, { name: 'invoices' }]);
+    expect(spec.paths['/billing/invoices/{invoiceId}'].get.operationId).toBe('billingGetItem');
+    expect(conflicts.map(conflict => conflict.code)).toEqual([
+      'component-renamed',
+      'component-renamed',
+      'operation-id-renamed',
+      'tag-conflict'
+    ]);
+  });
+
+  it('should report operations defined by more than one service', () => {
+    const { spec, conflicts } = mergeSpecs(
+      [{ name: 'users', spec: USERS }, { name: 'legacy-users', spec: USERS }],
+      { title: 'Gateway', version: '1.0.0' }
+    );
+
+    expect(Object.keys(spec.components?.schemas || {})).toEqual(['User', 'ErrorResponse']);
+    expect(conflicts).toEqual([
+      { code: 'operation-conflict', source: 'legacy-users', message: 'GET / is already defined by users and was left out' },
+      { code: 'operation-conflict', source: 'legacy-users', message: 'GET /{userId} is already defined by users and was left out' }
+    ]);
+  });
+
+  it('should not merge different OpenAPI versions', () => {
+    expect(() => mergeSpecs(
+      [{ name: 'users', spec: USERS }, { name: 'events', spec: { ...BILLING, openapi: '3.1.0' } }],
+      { title: 'Gateway', version: '1.0.0' }
+    )).toThrow('Cannot merge specs with different OpenAPI versions: 3.0.0, 3.1.0');
+  });
+});
@@ -0,0 +1,166 @@
+import * as http from 'http';
+import OpenAPIGenerator from '../index';
+import { startMockServer } from '../mock';
+import { MockRequest, MockServer } from '../types';
+
+type TestResponse = {
+  status: number;
+  headers: http.IncomingHttpHeaders;
+  text: string;
+  body: any;
+};
+
+// Sends a request with http rather than fetch, which Node 16 does not have
+const send = (url: string, options: { method?: string; headers?: Record<string, string>; body?: string } = {}) =>
+  new Promise<TestResponse>((resolve, reject) => {
+    const request = http.request(url, { method: options.method || 'GET', headers: options.headers }, response => {
+      const chunks: Buffer[] = [];
+      response.on('data', (chunk: Buffer) => chunks.push(chunk));
+      response.on('end', () => {
+        const text = Buffer.concat(chunks).toString('utf8');
+        let body: unknown;
+        try {
+          body = JSON.parse(text);
+        } catch (error) {
+          body = undefined;
+        }
+        resolve({ status: response.statusCode as number, headers: response.headers, text, body });
+      });
+    });
+    request.on('error', reject);
+    request.end(options.body);
+  });
+
+describe('startMockServer', () => {
+  let generator: OpenAPIGenerator;
+  let server: MockServer;
+  const requests: MockRequest[] = [];
+
+  beforeAll(async () => {
+    generator = await OpenAPIGenerator.create({
+      examples: { seed: 3 },
+      project: {
+        rootDir: 'src/__tests__',
+        include: ['fixtures/**/*.ts']
+      }
+    });
+    generator.addRoutes([
+      {
+        path: '/users/{userId}',
+        method: 'get',
+        pathParamsType: 'UserPathParams',
+        responses: [
+          { statusCode: 200, description: 'Success', type: 'User' },
+          { statusCode: 404, description: 'Not found', type: 'ErrorResponse' }
+        ]
+      },
+      {
+        path: '/users/me',
+        method: 'get',
+        responses: [{ statusCode: 200, description: 'Success', type: 'UserWithPosts' }]
+      },
+      {
+        path: '/users',
+        method: 'post',
+        requestType: 'CreateUserRequest',
+        responses: [{ statusCode: 201, description: 'Created', type: 'User' }]
+      }
+    ]);
+    server = await generator.startMockServer({ port: 0, onRequest: request => requests.push(request) });
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  const request = (path: string, options?: Parameters<typeof send>[1]) => send(`${server.url}${path}`, options);
+
+  it('should answer with the documented example', async () => {
+    const response = await request('/users/42');
+    const example = generator.generateSpec().paths['/users/{userId}'].get.responses['200'].content['application/json'].example;
+
+    expect(response.status).toBe(200);
+    expect(response.headers['content-type']).toBe('application/json');
+    expect(response.headers['access-control-allow-origin']).toBe('*');
+    expect(response.body).toEqual(example);
+    expect(requests).toContainEqual({ method: 'GET', path: '/users/42', statusCode: 200 });
+  });
+
+  it('should let the caller pick the status code', async () => {
+    const notFound = await request('/users/42', { headers: { Prefer: 'code=404' } });
+    expect(notFound.status).toBe(404);
+    expect(Object.keys(notFound.body)).toEqual(['code', 'message']);
+
+    const undocumented = await request('/users/42', { headers: { Prefer: 'code=418' } });
+    expect(undocumented.status).toBe(400);
+    expect(undocumented.body).toEqual({ message: 'Status 418 is not documented for this operation' });
+  });
+
+  it('should validate requests against the spec', async () => {
+    const invalidPath = await request('/users/abc');
+    expect(invalidPath.status).toBe(400);
+    expect(invalidPath.body.errors).toEqual([{ location: 'path', field: 'userId', message: 'Must be of type number' }]);
+
+    const invalidBody = await request('/users', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ name: 'Ada' })
+    });
+    expect(invalidBody.status).toBe(400);
+    expect(invalidBody.body.errors).toEqual([{ location: 'body', field: 'body.email', message: 'Property is required' }]);
+
+    const created = await request('/users', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ name: 'Ada', email: 'ada@example.com' })
+    });
+    expect(created.status).toBe(201);
+  });
+
+  it('should match paths without parameters first and report unknown routes', async () => {
+    expect((await request('/users/me')).body).toHaveProperty('posts');
+
+    expect(await request('/orders')).toMatchObject({ status: 404, body: { message: 'No path is documented for /orders' } });
+    const notAllowed = await request('/users/42', { method: 'DELETE' });
+    expect(notAllowed.status).toBe(405);
+    expect(notAllowed.headers.allow).toBe('GET');
+
+    const preflight = await request('/users', { method: 'OPTIONS' });
+    expect(preflight.status).toBe(204);
+  });
+
+  it('should synthesize responses for specs without examples', async () => {
+    const spec = generator.generateSpec();
+    const plain = await startMockServer({
+      ...spec,
+      paths: {
+        '/status': {
+          get: {
+            responses: {
+              '200': {
+                description: 'Success',
+                headers: { 'X-Request-Id': { schema: { type: 'string', format: 'uuid' } } },
+                content: {
+                  'application/json': { schema: { $ref: '#/components/schemas/User' } },
+                  'text/plain': { schema: { type: 'string' } }
+                }
+              }
+            }
+          }
+        }
+      }
+    }, { port: 0 });
+
+    try {
+      const json = await send(`${plain.url}/status`);
+      expect(json.headers['x-request-id']).toMatch(/^[0-9a-f-]{36}$/);
+      expect(Object.keys(json.body)).toEqual(['id', 'name', 'email', 'type']);
+
+      const text = await send(`${plain.url}/status`, { headers: { Accept: 'text/plain' } });
+      expect(text.headers['content-type']).toBe('text/plain');
+      expect(text.text.length).toBeGreaterThan(0);
+    } finally {
+      await plain.close();
+    }
+  });
+});
@@ -0,0 +1,104 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { parse } from 'yaml';
+import { OpenAPIObject } from 'openapi3-ts';
+import { getFormatFromPath, readSpecFiles, renderSpecFiles, serializeSpec, writeSpecFiles } from '../output';
+
+describe('output', () => {
+  const SPEC: OpenAPIObject = {
+    paths: {
+      '/users/{userId}': {
+        get: {
+          responses: {
+            '200': {
+              description: 'Success',
+              content: { 'application/json': { schema: { $ref: '#/components/schemas/User' } } }
+            }
+          }
+        }
+      },
+      '/': {
+        get: { responses: { '204': { description: 'No Content' } } }
+      }
+    },
+    components: {
+      schemas: {
+        User: { type: 'object', properties: { pet: { $ref: '#/components/schemas/Pet' } } },
+        Pet: {
+          oneOf: [{ $ref: '#/components/schemas/Cat' }],
+          discriminator: { propertyName: 'kind', mapping: { cat: '#/components/schemas/Cat' } }
+        },
+        Cat: { type: 'object' }
+      },
+      securitySchemes: {}
+    },
+    info: { title: 'Test API', version: '1.0.0' },
+    openapi: '3.0.0'
+  };
+
+  it('should pick the format from the file extension', () => {
+    expect(getFormatFromPath('spec.yaml')).toBe('yaml');
+    expect(getFormatFromPath('spec.YML')).toBe('yaml');
+    expect(getFormatFromPath('spec.json')).toBe('json');
+  });
+
+  it('should serialize with stable key ordering', () => {
+    const parsed = JSON.parse(serializeSpec(SPEC));
+
+    expect(Object.keys(parsed)).toEqual(['openapi', 'info', 'paths', 'components']);
+    expect(Object.keys(parsed.paths)).toEqual(['/', '/users/{userId}']);
+    expect(Object.keys(parsed.components.schemas)).toEqual(['Cat', 'Pet', 'User']);
+  });
+
+  it('should serialize to YAML', () => {
+    const yaml = serializeSpec(SPEC, 'yaml');
+
+    expect(yaml.startsWith('openapi: 3.0.0\ninfo:\n')).toBe(true);
+    expect(parse(yaml)).toEqual(JSON.parse(serializeSpec(SPEC)));
+  });
+
+  it('should split schemas and paths into files linked by relative refs', () => {
+    const rootPath = path.resolve('/tmp/api/openapi.yaml');
+    const files = renderSpecFiles(SPEC, rootPath, { split: true });
+    const read = (file: string) => parse(files.get(path.join(path.dirname(rootPath), file)) as string);
+
+    expect([...files.keys()].map(file => path.relative(path.dirname(rootPath), file)).sort()).toEqual([
+      path.join('components', 'schemas', 'Cat.yaml'),
+      path.join('components', 'schemas', 'Pet.yaml'),
+      path.join('components', 'schemas', 'User.yaml'),
+      'openapi.yaml',
+      path.join('paths', 'root.yaml'),
+      path.join('paths', 'users_{userId}.yaml')
+    ]);
+
+    const root = read('openapi.yaml');
+    expect(root.paths['/users/{userId}']).toEqual({ $ref: 'paths/users_{userId}.yaml' });
+    expect(root.components.schemas.User).toEqual({ $ref: 'components/schemas/User.yaml' });
+    expect(root.components.securitySchemes).toEqual({});
+
+    const userPath = read(path.join('paths', 'users_{userId}.yaml'));
+    expect(userPath.get.responses['200'].content['application/json'].schema)
+      .toEqual({ $ref: '../components/schemas/User.yaml' });
+
+    expect(read(path.join('components', 'schemas', 'User.yaml')).properties.pet).toEqual({ $ref: './Pet.yaml' });
+    expect(read(path.join('components', 'schemas', 'Pet.yaml')).discriminator.mapping).toEqual({ cat: './Cat.yaml' });
+  });
+
+  it('should use JSON files when the format is json', () => {
+    const files = renderSpecFiles(SPEC, path.resolve('/tmp/api/openapi.json'), { split: true });
+    const userFile = files.get(path.resolve('/tmp/api/components/schemas/User.json')) as string;
+
+    expect(JSON.parse(userFile).properties.pet).toEqual({ $ref: './Pet.json' });
+  });
+
+  it('should read split specs back into one document', () => {
+    const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'openapi-output-'));
+    try {
+      writeSpecFiles(SPEC, path.join(tmpDir, 'openapi.yaml'), { split: true });
+      expect(readSpecFiles(path.join(tmpDir, 'openapi.yaml'))).toEqual(JSON.parse(serializeSpec(SPEC)));
+    } finally {
+      fs.rmSync(tmpDir, { recursive: true, force: true });
+    }
+  });
+});
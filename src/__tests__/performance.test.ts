@@ -0,0 +1,115 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import OpenAPIGenerator from '../index';
+import { RouteDefinition } from '../types';
+
+// Generates a project of FILE_COUNT model files sharing a few common types
+// and checks that building the spec for ROUTE_COUNT routes builds each
+// component once, however many routes reference it
+const FILE_COUNT = 2000;
+const ROUTE_COUNT = 300;
+
+describe('performance', () => {
+  let tmpDir: string;
+
+  const createGenerator = (skipDeclarationFiles?: boolean) => OpenAPIGenerator.create({
+    project: {
+      rootDir: tmpDir,
+      include: ['**/*.ts'],
+      tsConfigFilePath: path.join(tmpDir, 'tsconfig.json'),
+      skipDeclarationFiles
+    }
+  });
+
+  beforeAll(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'openapi-performance-'));
+    fs.mkdirSync(path.join(tmpDir, 'models'));
+    fs.writeFileSync(path.join(tmpDir, 'tsconfig.json'), JSON.stringify({
+      compilerOptions: { target: 'es2020', strict: true },
+      include: ['**/*.ts']
+    }));
+    fs.writeFileSync(path.join(tmpDir, 'legacy.d.ts'), 'export interface Legacy { code: string }\n');
+    fs.writeFileSync(path.join(tmpDir, 'common.ts'), [
+      "import { Legacy } from './legacy';",
+      'export type Tag = { name: string; color?: string };',
+      'export interface Address { street: string; city: string; country: string }',
+      'export interface Owner { id: number; email: string; address: Address; tags: Tag[] }',
+      "export type Audit = { createdBy: Owner; updatedBy?: Owner; status: 'draft' | 'published' };",
+      'export type Imported = { legacy: Legacy };',
+      ''
+    ].join('\n'));
+    for (let index = 0; index < FILE_COUNT; index++) {
+      fs.writeFileSync(path.join(tmpDir, 'models', `model${index}.ts`), [
+        "import { Audit, Owner, Tag } from '../common';",
+        `import { Model${index % 10} } from './model${index % 10}';`,
+        `export interface Model${index} {`,
+        '  id: number;',
+        '  owner: Owner;',
+        '  tags: Tag[];',
+        '  audit: Audit;',
+        `  related?: Model${index % 10};`,
+        '}',
+        ''
+      ].join('\n'));
+    }
+  });
+
+  afterAll(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it(`should generate ${ROUTE_COUNT} routes over ${FILE_COUNT} files without repeated work`, async () => {
+    const generator = await createGenerator();
+    const routes: RouteDefinition[] = Array.from({ length: ROUTE_COUNT }, (_, index) => ({
+      path: `/models/${index}`,
+      method: 'put',
+      requestType: `Model${index}`,
+      responses: [{ statusCode: 200, description: 'Success', type: `Model${index}` }]
+    }));
+    const getSchemas = () => ({ ...generator.generateSpec().components?.schemas });
+
+    // Components built for the first route are shared by the others as they are
+    generator.addRoute(routes[0]);
+    const shared = getSchemas();
+    generator.addRoutes(routes.slice(1));
+    const schemas = getSchemas();
+    expect(Object.keys(schemas)).toHaveLength(ROUTE_COUNT + 4);
+    expect(generator.getDiagnostics()).toEqual([]);
+    Object.entries(shared).forEach(([name, schema]) => expect(schemas[name]).toBe(schema));
+
+    // Routes repeating a type reuse its component too
+    generator.addRoutes(routes.map(route => ({ ...route, path: `/archive${route.path}` })));
+    const reused = getSchemas();
+    expect(Object.keys(reused)).toHaveLength(ROUTE_COUNT + 4);
+    Object.entries(schemas).forEach(([name, schema]) => expect(reused[name]).toBe(schema));
+  }, 120000);
+
+  it('should leave declaration files out of the type lookup when asked', async () => {
+    const generator = await createGenerator(true);
+    generator.addRoute({
+      path: '/imported',
+      method: 'get',
+      responses: [{ statusCode: 200, description: 'Success', type: 'Imported' }]
+    });
+
+    // Types from declaration files still resolve through imports
+    expect(generator.generateSpec().components?.schemas?.Legacy).toEqual({
+      type: 'object',
+      properties: { code: { type: 'string' } },
+      required: ['code']
+    });
+    expect(() => generator.addRoute({
+      path: '/legacy',
+      method: 'get',
+      responses: [{ statusCode: 200, description: 'Success', type: 'Legacy' }]
+    })).toThrow("Type 'Legacy' not found in any source files");
+
+    const withDeclarations = await createGenerator();
+    expect(() => withDeclarations.addRoute({
+      path: '/legacy',
+      method: 'get',
+      responses: [{ statusCode: 200, description: 'Success', type: 'Legacy' }]
+    })).not.toThrow();
+  }, 120000);
+});
@@ -0,0 +1,183 @@
+import { OpenAPIObject } from 'openapi3-ts';
+import OpenAPIGenerator from '../index';
+import { createValidator, toBadRequest } from '../validation';
+
+describe('createValidator', () => {
+  let spec: OpenAPIObject;
+  let generator: OpenAPIGenerator;
+
+  beforeAll(async () => {
+    generator = await OpenAPIGenerator.create({
+      project: {
+        rootDir: 'src/__tests__',
+        include: ['fixtures/**/*.ts']
+      }
+    });
+    generator.addRoutes([
+      {
+        path: '/users/{userId}',
+        method: 'get',
+        pathParamsType: 'UserPathParams',
+        queryType: 'UserQuery',
+        headersType: 'TraceHeaders',
+        responses: [{ statusCode: 200, description: 'Success', type: 'User' }]
+      },
+      {
+        path: '/users',
+        method: 'post',
+        requestType: 'CreateUserRequest',
+        responses: [{ statusCode: 201, description: 'Created', type: 'User' }]
+      }
+    ]);
+    spec = generator.generateSpec();
+  });
+
+  const USER = { id: 1, name: 'Ada', email: 'ada@example.com', type: 'admin' };
+
+  it('should validate path, query and header parameters', () => {
+    const validator = createValidator(spec);
+
+    expect(validator.validateRequest('get', '/users/{userId}', {
+      pathParameters: { userId: '42' },
+      queryStringParameters: { page: '2', type: 'guest' },
+      headers: { 'x-correlation-id': 'abc' }
+    })).toEqual({ valid: true, errors: [] });
+
+    expect(validator.validateRequest('GET', '/users/42', {
+      pathParameters: { userId: 'me' },
+      queryStringParameters: { page: '0', type: 'owner' },
+      headers: {}
+    }).errors).toEqual([
+      { location: 'path', field: 'userId', message: 'Must be of type number' },
+      { location: 'query', field: 'page', message: 'Must be at least 1' },
+      { location: 'query', field: 'type', message: 'Must be one of "admin", "user", "trial", "guest"' },
+      { location: 'header', field: 'X-Correlation-Id', message: 'Parameter is required' }
+    ]);
+  });
+
+  it('should validate JSON bodies', () => {
+    const validator = createValidator(spec);
+
+    expect(validator.validateRequest('post', '/users', {
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ name: 'Ada', email: 'ada@example.com' })
+    }).valid).toBe(true);
+
+    expect(validator.validateRequest('post', '/users', {
+      body: JSON.stringify({ name: 7 })
+    }).errors).toEqual([
+      { location: 'body', field: 'body.email', message: 'Property is required' },
+      { location: 'body', field: 'body.name', message: 'Must be of type string' }
+    ]);
+
+    expect(validator.validateRequest('post', '/users', { headers: {} }))
+      .toEqual({ valid: false, errors: [{ location: 'body', field: 'body', message: 'Request body is required' }] });
+    expect(validator.validateRequest('post', '/users', { body: '{' }).errors)
+      .toEqual([{ location: 'body', field: 'body', message: 'Request body is not valid JSON' }]);
+    expect(() => validator.validateRequest('patch', '/users', {})).toThrow('No operation is documented for PATCH /users');
+  });
+
+  it('should validate responses unless disabled', () => {
+    const validator = createValidator(spec, { validateResponses: true });
+
+    expect(validator.validateResponse('post', '/users', { statusCode: 201, body: JSON.stringify(USER) }).valid).toBe(true);
+    expect(validator.validateResponse('post', '/users', { statusCode: 201, body: JSON.stringify({ ...USER, id: 'x' }) }).errors)
+      .toEqual([{ location: 'response', field: 'body.id', message: 'Must be of type number' }]);
+    expect(validator.validateResponse('post', '/users', { statusCode: 500, body: '' }).errors)
+      .toEqual([{ location: 'response', field: 'statusCode', message: 'Status 500 is not documented' }]);
+
+    const production = createValidator(spec, { validateResponses: false });
+    expect(production.validateResponse('post', '/users', { statusCode: 500 }).valid).toBe(true);
+  });
+
+  it('should require readOnly properties in responses and writeOnly ones in requests only', () => {
+    const itemSpec: OpenAPIObject = {
+      openapi: '3.0.0',
+      info: { title: 'Test API', version: '1.0.0' },
+      paths: {
+        '/items': {
+          post: {
+            requestBody: { required: true, content: { 'application/json': { schema: { $ref: '#/components/schemas/Item' } } } },
+            responses: { 201: { description: 'Created', content: { 'application/json': { schema: { $ref: '#/components/schemas/Item' } } } } }
+          }
+        }
+      },
+      components: {
+        schemas: {
+          Item: {
+            type: 'object',
+            properties: {
+              id: { type: 'number', readOnly: true },
+              name: { type: 'string' },
+              secret: { type: 'string', writeOnly: true }
+            },
+            required: ['id', 'name', 'secret']
+          }
+        }
+      }
+    };
+    const validator = createValidator(itemSpec, { validateResponses: true });
+
+    expect(validator.validateRequest('post', '/items', { body: JSON.stringify({ name: 'Pen', secret: 's' }) }).valid).toBe(true);
+    expect(validator.validateRequest('post', '/items', { body: JSON.stringify({ id: 1 }) }).errors).toEqual([
+      { location: 'body', field: 'body.name', message: 'Property is required' },
+      { location: 'body', field: 'body.secret', message: 'Property is required' }
+    ]);
+    expect(validator.validateResponse('post', '/items', { statusCode: 201, body: JSON.stringify({ id: 1, name: 'Pen' }) }).valid)
+      .toBe(true);
+    expect(validator.validateResponse('post', '/items', { statusCode: 201, body: JSON.stringify({ secret: 's' }) }).errors).toEqual([
+      { location: 'response', field: 'body.id', message: 'Property is required' },
+      { location: 'response', field: 'body.name', message: 'Property is required' }
+    ]);
+  });
+
+  it('should treat boolean exclusive bounds as modifiers of minimum and maximum', () => {
+    const boundsSpec: OpenAPIObject = {
+      openapi: '3.0.0',
+      info: { title: 'Test API', version: '1.0.0' },
+      paths: {
+        '/ratios/{ratio}': {
+          get: {
+            parameters: [{
+              name: 'ratio',
+              in: 'path',
+              required: true,
+              schema: { type: 'number', minimum: 0, exclusiveMinimum: true, maximum: 1, exclusiveMaximum: true }
+            }],
+            responses: { 204: { description: 'No content' } }
+          }
+        }
+      }
+    };
+    const validator = createValidator(boundsSpec);
+    const validate = (ratio: string) => validator.validateRequest('get', '/ratios/{ratio}', { pathParameters: { ratio } }).errors;
+
+    expect(validate('0.5')).toEqual([]);
+    expect(validate('0')).toEqual([{ location: 'path', field: 'ratio', message: 'Must be greater than 0' }]);
+    expect(validate('1')).toEqual([{ location: 'path', field: 'ratio', message: 'Must be less than 1' }]);
+  });
+
+  it('should wrap handlers with request and response checks', async () => {
+    const validator = createValidator(spec, { validateResponses: true });
+    const handler = validator.wrap('post', '/users', async () => ({ statusCode: 201, body: JSON.stringify(USER) }));
+
+    expect(await handler({ body: JSON.stringify({ name: 'Ada', email: 'ada@example.com' }) }))
+      .toEqual({ statusCode: 201, body: JSON.stringify(USER) });
+
+    const rejected = await handler({ body: JSON.stringify({ name: 'Ada' }) });
+    expect(rejected).toEqual(toBadRequest([{ location: 'body', field: 'body.email', message: 'Property is required' }]));
+    expect(rejected.statusCode).toBe(400);
+
+    const broken = validator.wrap('post', '/users', async () => ({ statusCode: 201, body: '{}' }));
+    await expect(broken({ body: JSON.stringify({ name: 'Ada', email: 'ada@example.com' }) }))
+      .rejects.toThrow('Response of POST /users does not match the spec: body.id: Property is required');
+  });
+
+  it('should render a validator module from the spec', () => {
+    const source = generator.renderValidatorModule();
+
+    expect(source).toContain("import { createValidator } from 'ts-to-openapi-spec/dist/validation';");
+    expect(source).toContain('"/users/{userId}"');
+    expect(source).toContain('export const { validateRequest, validateResponse, wrap } = validator;');
+  });
+});
@@ -0,0 +1,178 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import OpenAPIGenerator from '../index';
+import { RouteDefinition } from '../types';
+
+describe('regenerate', () => {
+  let tmpDir: string;
+
+  const writeFile = (fileName: string, content: string) => {
+    fs.mkdirSync(path.dirname(path.join(tmpDir, fileName)), { recursive: true });
+    fs.writeFileSync(path.join(tmpDir, fileName), content);
+    return path.join(tmpDir, fileName);
+  };
+
+  const ROUTES: RouteDefinition[] = [
+    {
+      path: '/users/{userId}',
+      method: 'get',
+      responses: [{ statusCode: 200, description: 'Success', type: 'User' }]
+    },
+    {
+      path: '/posts',
+      method: 'get',
+      responses: [{ statusCode: 200, description: 'Success', type: 'Paginated<Post>' }]
+    }
+  ];
+
+  const createGenerator = async () => {
+    const generator = await OpenAPIGenerator.create({
+      project: { rootDir: tmpDir, include: ['**/*.ts'], tsConfigFilePath: path.join(tmpDir, 'tsconfig.json') }
+    });
+    generator.addRoutes(ROUTES);
+    return generator;
+  };
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'openapi-watch-'));
+    writeFile('tsconfig.json', JSON.stringify({ compilerOptions: { strict: true }, include: ['**/*.ts'] }));
+    writeFile('address.ts', 'export type Address = { street: string };\n');
+    writeFile('user.ts', [
+      "import { Address } from './address';",
+      'export type User = { id: number; address: Address };',
+      ''
+    ].join('\n'));
+    writeFile('post.ts', [
+      'export type Post = { title: string };',
+      'export type Paginated<T> = { items: T[]; total: number };',
+      ''
+    ].join('\n'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should rebuild only the components that depend on changed files', async () => {
+    const generator = await createGenerator();
+    const schemas = { ...generator.generateSpec().components?.schemas };
+
+    const addressFile = writeFile('address.ts', 'export type Address = { street: string; city?: string };\n');
+    await generator.regenerate([addressFile]);
+    const regenerated = generator.generateSpec().components?.schemas || {};
+
+    expect(regenerated.Address).toEqual({
+      type: 'object',
+      properties: { street: { type: 'string' }, city: { type: 'string' } },
+      required: ['street']
+    });
+    // Referencing components are rebuilt, unrelated ones are kept as they are
+    expect(regenerated.User).not.toBe(schemas.User);
+    expect(regenerated.Post).toBe(schemas.Post);
+    expect(regenerated.Paginated_Post).toBe(schemas.Paginated_Post);
+
+    const fresh = await createGenerator();
+    expect(generator.generateSpec()).toEqual(fresh.generateSpec());
+  });
+
+  it('should pick up added files and drop components that are no longer used', async () => {
+    const generator = await createGenerator();
+
+    const geoFile = writeFile('geo.ts', 'export type Coordinates = { lat: number; lng: number };\n');
+    const addressFile = writeFile('address.ts', [
+      "import { Coordinates } from './geo';",
+      'export type Location = { coordinates: Coordinates };',
+      'export type Address = { location: Location };',
+      ''
+    ].join('\n'));
+    await generator.regenerate([geoFile, addressFile]);
+    expect(Object.keys(generator.generateSpec().components?.schemas || {}).sort())
+      .toEqual(['Address', 'Coordinates', 'Location', 'Paginated_Post', 'Post', 'User']);
+
+    writeFile('user.ts', 'export type User = { id: number };\n');
+    await generator.regenerate([path.join(tmpDir, 'user.ts')]);
+    expect(Object.keys(generator.generateSpec().components?.schemas || {}).sort())
+      .toEqual(['Paginated_Post', 'Post', 'User']);
+  });
+
+  it('should keep the routes when a changed file breaks a type', async () => {
+    const profileFile = writeFile('profile.ts', 'export type Profile = { bio: string };\n');
+    const generator = await createGenerator();
+    generator.addRoute({
+      path: '/profile',
+      method: 'get',
+      responses: [{ statusCode: 200, description: 'Success', type: 'Profile' }]
+    });
+
+    const { paths, components } = JSON.parse(JSON.stringify(generator.generateSpec()));
+
+    writeFile('profile.ts', 'export type Biography = { bio: string };\n');
+    const addressFile = writeFile('address.ts', 'export type Address = { street: string; city?: string };\n');
+    await expect(generator.regenerate([profileFile, addressFile])).rejects.toThrow("Type 'Profile' not found in any source files");
+    expect(generator.generateSpec().paths).toEqual(paths);
+    expect(generator.generateSpec().components?.schemas).toEqual(components.schemas);
+
+    // The next regeneration also picks up the other file of the failed one
+    writeFile('profile.ts', 'export type Profile = { bio: string; avatar?: string };\n');
+    await generator.regenerate([profileFile]);
+    expect(Object.keys(generator.generateSpec().paths)).toEqual(['/users/{userId}', '/posts', '/profile']);
+    expect(generator.generateSpec().components?.schemas?.Address).toHaveProperty('properties.city');
+  });
+
+  it('should regenerate when watched files change', async () => {
+    const generator = await createGenerator();
+    const regenerated = new Promise<string[]>((resolve, reject) => {
+      const watcher = generator.watch({
+        debounceMs: 20,
+        onRegenerate: changedFiles => {
+          watcher.close();
+          resolve(changedFiles);
+        },
+        onError: error => {
+          watcher.close();
+          reject(error);
+        }
+      });
+    });
+
+    const postFile = writeFile('post.ts', [
+      'export type Post = { title: string; body: string };',
+      'export type Paginated<T> = { items: T[]; total: number };',
+      ''
+    ].join('\n'));
+
+    expect(await regenerated).toEqual([postFile]);
+    expect(generator.generateSpec().components?.schemas?.Post).toEqual({
+      type: 'object',
+      properties: { title: { type: 'string' }, body: { type: 'string' } },
+      required: ['title', 'body']
+    });
+  });
+
+  it('should watch nested directories, including ones created while watching', async () => {
+    writeFile(path.join('shared', 'tag.ts'), 'export type Tag = { name: string };\n');
+    const generator = await createGenerator();
+    const changed = new Set<string>();
+    let watcher: { close(): void } | undefined;
+    const regenerated = new Promise<void>((resolve, reject) => {
+      watcher = generator.watch({
+        debounceMs: 20,
+        onRegenerate: changedFiles => {
+          changedFiles.forEach(file => changed.add(file));
+          if (changed.size === 2) resolve();
+        },
+        onError: reject
+      });
+    });
+
+    try {
+      const tagFile = writeFile(path.join('shared', 'tag.ts'), 'export type Tag = { name: string; color: string };\n');
+      const commentFile = writeFile(path.join('models', 'comments', 'comment.ts'), 'export type Comment = { text: string };\n');
+      await regenerated;
+      expect([...changed].sort()).toEqual([commentFile, tagFile].sort());
+    } finally {
+      watcher?.close();
+    }
+  });
+});
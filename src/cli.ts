@@ -0,0 +1,357 @@
+#!/usr/bin/env node
+import * as fs from 'fs';
+import * as path from 'path';
+import OpenAPIGenerator from './index';
+import { loadConfig, loadMergeConfig, resolveConfigPath } from './config';
+import { diffSpecs, formatChanges } from './diff';
+import { MergeSource, mergeSpecs } from './merge';
+import { startMockServer } from './mock';
+import { readSpecFiles, renderSpecFiles, writeSpecFiles } from './output';
+import { ChangeReportFormat, CliConfig, MockServer, MockServerOptions, SpecFormat, SpecOutputOptions, SpecWatcher } from './types';
+
+const DEFAULT_OUTPUT = 'openapi.json';
+
+const USAGE = `Usage: ts-to-openapi-spec [command] [options]
+
+Commands:
+  generate            Generate the spec and write it to the output file (default)
+  validate            Check the routes and types for problems without writing
+  diff <base> [head]  Compare two specs and exit non-zero on breaking changes.
+                      Without head, the base is compared with a freshly generated spec
+  merge               Combine the specs of the services listed in the config
+  mock [spec]         Serve example responses from a local mock server. Without spec,
+                      the spec is generated from the config
+
+Options:
+  -c, --config <path> Config file (default: openapi.config.ts, .js or .json)
+  -o, --output <path> Output file (default: config output or ${DEFAULT_OUTPUT})
+  -f, --format <fmt>  Output format, json or yaml (default: from the output extension)
+  --split             Write schemas and paths to separate files
+  --check             Exit non-zero if the output files are missing or stale
+  --report <fmt>      Diff report format, text or json (default: text)
+  -w, --watch         Keep regenerating the output as source files change
+  -p, --port <port>   Mock server port (default: 4010)
+  -h, --help          Show this message`;
+
+export type CliOptions = {
+  command: 'generate' | 'validate' | 'diff' | 'merge' | 'mock';
+  config?: string;
+  // Spec files to compare with `diff` or serve with `mock`
+  specs?: string[];
+  report?: ChangeReportFormat;
+  output?: string;
+  format?: SpecFormat;
+  split: boolean;
+  check: boolean;
+  watch?: boolean;
+  port?: number;
+  help: boolean;
+};
+
+export function parseArgs(argv: string[]): CliOptions {
+  const options: CliOptions = { command: 'generate', split: false, check: false, help: false };
+
+  for (let index = 0; index < argv.length; index++) {
+    const arg = argv[index];
+    switch (arg) {
+      case 'generate':
+      case 'validate':
+      case 'diff':
+      case 'merge':
+      case 'mock':
+        options.command = arg;
+        break;
+      case '-c':
+      case '--config':
+        options.config = requireValue(argv, ++index, arg);
+        break;
+      case '-o':
+      case '--output':
+        options.output = requireValue(argv, ++index, arg);
+        break;
+      case '-f':
+      case '--format': {
+        const format = requireValue(argv, ++index, arg);
+        if (format !== 'json' && format !== 'yaml') {
+          throw new Error(`Unsupported format '${format}', expected json or yaml`);
+        }
+        options.format = format;
+        break;
+      }
+      case '--split':
+        options.split = true;
+        break;
+      case '--check':
+        options.check = true;
+        break;
+      case '-w':
+      case '--watch':
+        options.watch = true;
+        break;
+      case '-p':
+      case '--port': {
+        const port = Number(requireValue(argv, ++index, arg));
+        if (!Number.isInteger(port) || port < 0 || port > 65535) {
+          throw new Error(`Invalid port '${argv[index]}'`);
+        }
+        options.port = port;
+        break;
+      }
+      case '--report': {
+        const report = requireValue(argv, ++index, arg);
+        if (report !== 'text' && report !== 'json') {
+          throw new Error(`Unsupported report format '${report}', expected text or json`);
+        }
+        options.report = report;
+        break;
+      }
+      case '-h':
+      case '--help':
+        options.help = true;
+        break;
+      default:
+        if ((options.command === 'diff' || options.command === 'mock') && !arg.startsWith('-')) {
+          options.specs = [...(options.specs || []), arg];
+          break;
+        }
+        throw new Error(`Unknown argument '${arg}'`);
+    }
+  }
+
+  if (options.command === 'diff' && !options.help && (options.specs || []).length !== 1 && (options.specs || []).length !== 2) {
+    throw new Error('diff expects a base spec and optionally a head spec');
+  }
+  if (options.command === 'mock' && (options.specs || []).length > 1) {
+    throw new Error('mock expects at most one spec');
+  }
+
+  return options;
+}
+
+function requireValue(argv: string[], index: number, flag: string): string {
+  const value = argv[index];
+  if (!value || value.startsWith('-')) {
+    throw new Error(`Option '${flag}' requires a value`);
+  }
+  return value;
+}
+
+export async function createGeneratorFromConfig(config: CliConfig): Promise<OpenAPIGenerator> {
+  const generator = await OpenAPIGenerator.create(config);
+
+  (config.servers || []).forEach(server => generator.addServer(server));
+  (config.tags || []).forEach(tag => generator.addTag(tag));
+  Object.entries(config.securitySchemes || {}).forEach(([name, scheme]) =>
+    generator.addSecurityScheme(name, scheme)
+  );
+  if (config.discoverRoutes) {
+    generator.addRoutes(generator.discoverRoutes());
+  }
+  generator.addRoutes(config.routes || []);
+  Object.entries(config.webhooks || {}).forEach(([name, webhook]) =>
+    generator.addWebhook(name, webhook)
+  );
+
+  return generator;
+}
+
+// Runs the CLI and resolves with the process exit code
+export async function runCli(argv: string[], cwd: string = process.cwd()): Promise<number> {
+  let options: CliOptions;
+  try {
+    options = parseArgs(argv);
+  } catch (error: any) {
+    console.error(`${error.message}\n\n${USAGE}`);
+    return 1;
+  }
+
+  if (options.help) {
+    console.log(USAGE);
+    return 0;
+  }
+
+  try {
+    if (options.command === 'diff') {
+      return await runDiff(options, cwd);
+    }
+    if (options.command === 'merge') {
+      return await runMerge(options, cwd);
+    }
+    if (options.command === 'mock') {
+      return await runMock(options, cwd);
+    }
+
+    const configPath = resolveConfigPath(options.config, cwd);
+    const config = loadConfig(configPath);
+    const generator = await createGeneratorFromConfig(config);
+
+    const diagnostics = generator.getDiagnostics();
+    printDiagnostics(generator);
+
+    if (options.command === 'validate') {
+      if (diagnostics.length > 0) {
+        console.error(`Found ${diagnostics.length} problem(s)`);
+        return 1;
+      }
+      console.log('No problems found');
+      return 0;
+    }
+
+    const outputPath = path.resolve(cwd, options.output || config.output || DEFAULT_OUTPUT);
+    const outputOptions: SpecOutputOptions = {
+      format: options.format || config.format,
+      split: options.split || config.split
+    };
+
+    if (options.check) {
+      const files = renderSpecFiles(generator.generateSpec(), outputPath, outputOptions);
+      const stale = [...files].filter(([file, content]) =>
+        !fs.existsSync(file) || fs.readFileSync(file, 'utf8') !== content
+      );
+      if (stale.length > 0) {
+        stale.forEach(([file]) => console.error(`${path.relative(cwd, file)} is out of date, run ts-to-openapi-spec generate`));
+        return 1;
+      }
+      console.log(`${path.relative(cwd, outputPath)} is up to date`);
+      return 0;
+    }
+
+    const write = () => {
+      const written = generator.writeSpecToFile(outputPath, outputOptions);
+      if (config.validators) {
+        generator.writeValidatorModule(path.resolve(cwd, config.validators));
+      }
+      if (config.client) {
+        generator.writeClientModule(path.resolve(cwd, config.client));
+      }
+      console.log(`Wrote ${written.length === 1 ? path.relative(cwd, outputPath) : `${written.length} files`}`);
+    };
+    write();
+
+    if (options.watch) {
+      return await watchOutput(generator, write);
+    }
+    return 0;
+  } catch (error: any) {
+    console.error(error.message);
+    return 1;
+  }
+}
+
+function printDiagnostics(generator: OpenAPIGenerator) {
+  generator.getDiagnostics().forEach(diagnostic => {
+    const location = diagnostic.file ? ` (${diagnostic.file}:${diagnostic.line})` : '';
+    const route = diagnostic.route ? `${diagnostic.route}: ` : '';
+    console.error(`[${diagnostic.code}] ${route}${diagnostic.message}${location}`);
+  });
+}
+
+// Rewrites the output after every regeneration until interrupted
+async function watchOutput(generator: OpenAPIGenerator, write: () => void): Promise<number> {
+  const watcher = startWatching(generator, write);
+  await waitForInterrupt();
+  watcher.close();
+  return 0;
+}
+
+// Errors are reported and the last good spec is kept, so a half-typed
+// change doesn't end the session
+function startWatching(generator: OpenAPIGenerator, onRegenerate: () => void = () => undefined): SpecWatcher {
+  const watcher = generator.watch({
+    onRegenerate: changedFiles => {
+      printDiagnostics(generator);
+      console.log(`Regenerated after changes to ${changedFiles.length} file(s)`);
+      onRegenerate();
+    },
+    onError: error => console.error(error.message)
+  });
+  console.log('Watching for changes, press Ctrl+C to stop');
+  return watcher;
+}
+
+function waitForInterrupt(): Promise<void> {
+  return new Promise(resolve => process.once('SIGINT', () => resolve()));
+}
+
+// Compares the base spec with the head spec, or with the spec generated
+// from the config when no head is given
+async function runDiff(options: CliOptions, cwd: string): Promise<number> {
+  const [base, head] = (options.specs || []).map(file => path.resolve(cwd, file));
+  const previous = readSpecFiles(base);
+  const current = head
+    ? readSpecFiles(head)
+    : (await createGeneratorFromConfig(loadConfig(resolveConfigPath(options.config, cwd)))).generateSpec();
+
+  const changes = diffSpecs(previous, current);
+  console.log(formatChanges(changes, options.report));
+  return changes.some(change => change.breaking) ? 1 : 0;
+}
+
+// Service files are relative to the merge config. Operations left out
+// because another service already defines them fail the command.
+async function runMerge(options: CliOptions, cwd: string): Promise<number> {
+  const configPath = resolveConfigPath(options.config, cwd);
+  const config = loadMergeConfig(configPath);
+  const configDir = path.dirname(configPath);
+
+  const sources: MergeSource[] = [];
+  for (const service of config.services) {
+    const spec = service.spec
+      ? readSpecFiles(path.resolve(configDir, service.spec))
+      : (await createGeneratorFromConfig(loadConfig(path.resolve(configDir, service.config as string)))).generateSpec();
+    sources.push({ name: service.name, spec, pathPrefix: service.pathPrefix });
+  }
+
+  const { spec, conflicts } = mergeSpecs(sources, {
+    title: config.title,
+    version: config.version,
+    description: config.description,
+    servers: config.servers
+  });
+  conflicts.forEach(conflict => console.error(`[${conflict.code}] ${conflict.source}: ${conflict.message}`));
+
+  const outputPath = path.resolve(cwd, options.output || config.output || DEFAULT_OUTPUT);
+  const written = writeSpecFiles(spec, outputPath, {
+    format: options.format || config.format,
+    split: options.split || config.split
+  });
+  console.log(`Merged ${sources.length} services into ${written.length === 1 ? path.relative(cwd, outputPath) : `${written.length} files`}`);
+  return conflicts.some(conflict => conflict.code === 'operation-conflict') ? 1 : 0;
+}
+
+// Serves the spec file, or the spec generated from the config, until
+// interrupted. With --watch the generated spec follows source changes.
+async function runMock(options: CliOptions, cwd: string): Promise<number> {
+  const [specFile] = options.specs || [];
+  if (specFile && options.watch) {
+    console.error('--watch needs a config to generate the spec from');
+    return 1;
+  }
+
+  const mockOptions: MockServerOptions = {
+    port: options.port,
+    onRequest: request => console.log(`${request.method} ${request.path} ${request.statusCode}`)
+  };
+  let server: MockServer;
+  let watcher: SpecWatcher | undefined;
+  if (specFile) {
+    server = await startMockServer(readSpecFiles(path.resolve(cwd, specFile)), mockOptions);
+  } else {
+    const generator = await createGeneratorFromConfig(loadConfig(resolveConfigPath(options.config, cwd)));
+    printDiagnostics(generator);
+    server = await generator.startMockServer(mockOptions);
+    watcher = options.watch ? startWatching(generator) : undefined;
+  }
+  console.log(`Mock server listening on ${server.url}`);
+
+  await waitForInterrupt();
+  watcher?.close();
+  await server.close();
+  return 0;
+}
+
+if (require.main === module) {
+  runCli(process.argv.slice(2)).then(code => {
+    process.exitCode = code;
+  });
+}
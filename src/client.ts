@@ -0,0 +1,266 @@
+import * as path from 'path';
+import { ParameterObject, SchemaObject, ServerObject, isReferenceObject } from 'openapi3-ts';
+
+// A TypeScript type as written in the client, with the declarations it
+// imports from the project
+export type ClientType = {
+  text: string;
+  imports: Array<{ name: string; file: string }>;
+};
+
+export type ClientParameters = {
+  // Type the parameters were derived from, if any
+  type?: ClientType;
+  // Parameters listed on the route itself
+  extra: ParameterObject[];
+  required: boolean;
+};
+
+export type ClientOperation = {
+  operationId: string;
+  method: string;
+  path: string;
+  description?: string;
+  deprecated?: boolean;
+  parameters: Record<'path' | 'query' | 'header', ClientParameters>;
+  body?: {
+    type?: ClientType;
+    json: boolean;
+  };
+  responses: Array<{
+    statusCode: number;
+    type?: ClientType;
+    kind: 'json' | 'text' | 'binary' | 'none';
+  }>;
+};
+
+const PARAMETER_KEYS = { path: 'path', query: 'query', header: 'headers' } as const;
+
+// Shared by every operation: builds the URL, sends the request with fetch
+// and reads the body according to the response's content type
+const REQUEST_FUNCTION = `type RequestParams = {
+  path?: object;
+  query?: object;
+  headers?: object;
+  body?: unknown;
+};
+
+async function request(
+  method: string,
+  path: string,
+  params: RequestParams,
+  options: ClientOptions,
+  json: boolean
+): Promise<ApiResponse<number, any>> {
+  const pathParams = (params.path || {}) as Record<string, unknown>;
+  const url = (options.baseUrl ?? servers[0] ?? '').replace(/\\/$/, '')
+    + path.replace(/\\{([^}]+)\\}/g, (_, name: string) => encodeURIComponent(String(pathParams[name])));
+
+  const query = new URLSearchParams();
+  Object.entries(params.query || {}).forEach(([name, value]) => {
+    if (value === undefined || value === null) return;
+    (Array.isArray(value) ? value : [value]).forEach(item => query.append(name, String(item)));
+  });
+
+  const headers: Record<string, string> = { ...options.headers };
+  Object.entries(params.headers || {}).forEach(([name, value]) => {
+    if (value !== undefined && value !== null) headers[name] = String(value);
+  });
+
+  let body: BodyInit | undefined;
+  if (params.body !== undefined) {
+    if (json) {
+      headers['Content-Type'] = 'application/json';
+      body = JSON.stringify(params.body);
+    } else {
+      body = params.body as BodyInit;
+    }
+  }
+
+  const queryString = query.toString();
+  const response = await (options.fetch ?? fetch)(queryString ? \`\${url}?\${queryString}\` : url, { method, headers, body });
+
+  const contentType = response.headers.get('content-type') || '';
+  let data: unknown;
+  if (contentType.includes('json') || contentType.startsWith('text/')) {
+    const text = await response.text();
+    data = contentType.includes('json') && text ? JSON.parse(text) : text || undefined;
+  } else if (response.status !== 204) {
+    data = await response.blob();
+  }
+  return { status: response.status, data, response };
+}`;
+
+// Renders a fetch-based client with one function per operation. Types are
+// imported from the files that declare them, relative to the client file.
+export function renderClient(filePath: string, operations: ClientOperation[], servers: ServerObject[]): string {
+  const imports = new Map<string, Map<string, string>>();
+  const localNames = new Map<string, string>();
+
+  // Imports each declaration once, aliasing same-named types from
+  // different files
+  const useType = (type: ClientType): string => {
+    let text = type.text;
+    type.imports.forEach(({ name, file }) => {
+      const key = `${file}#${name}`;
+      let localName = localNames.get(key);
+      if (!localName) {
+        const taken = new Set(localNames.values());
+        localName = name;
+        for (let index = 2; taken.has(localName); index++) {
+          localName = `${name}${index}`;
+        }
+        localNames.set(key, localName);
+        const names = imports.get(file) || new Map<string, string>();
+        names.set(name, localName);
+        imports.set(file, names);
+      }
+      if (localName !== name) {
+        text = text.replace(new RegExp(`(?<![\\w$])${name}(?![\\w$])`, 'g'), localName);
+      }
+    });
+    return text;
+  };
+
+  const sections = operations.map(operation => renderOperation(operation, useType));
+
+  const importLines = [...imports.entries()].map(([file, names]) => {
+    const specifiers = [...names.entries()].map(([name, local]) => name === local ? name : `${name} as ${local}`);
+    return `import type { ${specifiers.join(', ')} } from '${getModuleSpecifier(filePath, file)}';`;
+  });
+
+  const serverUrls = servers.map(server => `  '${getServerUrl(server)}'`);
+
+  return [
+    '// Generated by ts-to-openapi-spec. Do not edit.',
+    ...importLines,
+    '',
+    `export const servers = [${serverUrls.length > 0 ? `\n${serverUrls.join(',\n')}\n` : ''}] as const;`,
+    '',
+    'export type ClientOptions = {',
+    '  // One of the servers, or any other base URL',
+    '  baseUrl?: typeof servers[number] | (string & {});',
+    '  headers?: Record<string, string>;',
+    '  fetch?: typeof fetch;',
+    '};',
+    '',
+    'export type ApiResponse<TStatus extends number, TData> = {',
+    '  status: TStatus;',
+    '  data: TData;',
+    '  response: Response;',
+    '};',
+    '',
+    REQUEST_FUNCTION,
+    '',
+    ...sections,
+    renderCreateClient(operations),
+    ''
+  ].join('\n');
+}
+
+function renderOperation(operation: ClientOperation, useType: (type: ClientType) => string): string {
+  const typeName = operation.operationId.charAt(0).toUpperCase() + operation.operationId.slice(1);
+  const paramsType = `${typeName}Params`;
+  const responseType = `${typeName}Response`;
+
+  const fields: string[] = [];
+  (Object.keys(PARAMETER_KEYS) as Array<keyof typeof PARAMETER_KEYS>).forEach(location => {
+    const parameters = operation.parameters[location];
+    const parts = [
+      ...(parameters.type ? [useType(parameters.type)] : []),
+      ...(parameters.extra.length > 0 ? [renderParameterLiteral(parameters.extra)] : [])
+    ];
+    if (parts.length > 0) {
+      fields.push(`  ${PARAMETER_KEYS[location]}${parameters.required ? '' : '?'}: ${parts.join(' & ')};`);
+    }
+  });
+  if (operation.body) {
+    const bodyType = operation.body.type ? useType(operation.body.type) : operation.body.json ? 'unknown' : 'BodyInit';
+    fields.push(`  body: ${operation.body.json ? bodyType : `${bodyType} | BodyInit`};`);
+  }
+
+  const responses = operation.responses.map(response => {
+    const dataType = response.kind === 'none' ? 'undefined'
+      : response.type && response.kind === 'json' ? useType(response.type)
+      : response.kind === 'text' ? 'string'
+      : response.kind === 'binary' ? 'Blob'
+      : 'unknown';
+    return `  | ApiResponse<${response.statusCode}, ${dataType}>`;
+  });
+
+  const optional = isInputOptional(operation);
+  const comment = [
+    ...(operation.description ? [operation.description] : []),
+    ...(operation.deprecated ? ['@deprecated'] : [])
+  ];
+
+  return [
+    `export type ${paramsType} = ${fields.length > 0 ? `{\n${fields.join('\n')}\n}` : 'Record<string, never>'};`,
+    '',
+    `export type ${responseType} =\n${responses.join('\n')};`,
+    '',
+    ...(comment.length > 0 ? [`/**\n${comment.map(line => ` * ${line}`).join('\n')}\n */`] : []),
+    `export function ${operation.operationId}(params: ${paramsType}${optional ? ' = {}' : ''}, options: ClientOptions = {}): Promise<${responseType}> {`,
+    `  return request('${operation.method.toUpperCase()}', '${operation.path}', params, options, ${operation.body?.json ?? true}) as Promise<${responseType}>;`,
+    '}',
+    ''
+  ].join('\n');
+}
+
+// Binds every operation to one set of options
+function renderCreateClient(operations: ClientOperation[]): string {
+  const members = operations.map(operation => {
+    const { operationId } = operation;
+    const paramsType = `${operationId.charAt(0).toUpperCase() + operationId.slice(1)}Params`;
+    return `    ${operationId}: (params: ${paramsType}${isInputOptional(operation) ? ' = {}' : ''}, overrides: ClientOptions = {}) => ${operationId}(params, { ...options, ...overrides })`;
+  });
+
+  return [
+    'export function createClient(options: ClientOptions = {}) {',
+    `  return {${members.length > 0 ? `\n${members.join(',\n')}\n  ` : ''}};`,
+    '}'
+  ].join('\n');
+}
+
+// Operations without a body or required parameters can be called without params
+function isInputOptional(operation: ClientOperation): boolean {
+  return !operation.body && Object.values(operation.parameters).every(parameters => !parameters.required);
+}
+
+function renderParameterLiteral(parameters: ParameterObject[]): string {
+  const properties = parameters.map(parameter => {
+    const name = /^[A-Za-z_$][\w$]*$/.test(parameter.name) ? parameter.name : `'${parameter.name}'`;
+    const schema = parameter.schema && !isReferenceObject(parameter.schema) ? parameter.schema : {};
+    return `${name}${parameter.required ? '' : '?'}: ${schemaToTypeScript(schema)}`;
+  });
+  return `{ ${properties.join('; ')} }`;
+}
+
+// Route-level parameters only carry simple schemas
+function schemaToTypeScript(schema: SchemaObject): string {
+  if (schema.enum) {
+    return schema.enum.map(value => JSON.stringify(value)).join(' | ');
+  }
+  switch (Array.isArray(schema.type) ? schema.type[0] : schema.type) {
+    case 'integer':
+    case 'number':
+      return 'number';
+    case 'boolean':
+      return 'boolean';
+    default:
+      return 'string';
+  }
+}
+
+// Server variables are replaced by their defaults
+function getServerUrl(server: ServerObject): string {
+  return server.url.replace(/\{([^}]+)\}/g, (match, name: string) => server.variables?.[name]?.default?.toString() ?? match);
+}
+
+function getModuleSpecifier(fromFile: string, toFile: string): string {
+  const relative = path.relative(path.dirname(fromFile), toFile)
+    .replace(/(\.d)?\.tsx?$/, '')
+    .split(path.sep)
+    .join('/');
+  return relative.startsWith('.') ? relative : `./${relative}`;
+}
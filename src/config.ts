@@ -0,0 +1,104 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import Module from 'module';
+import * as ts from 'typescript';
+import { CliConfig, MergeConfig, ProjectConfig } from './types';
+
+export const DEFAULT_CONFIG_FILES = ['openapi.config.ts', 'openapi.config.js', 'openapi.config.json'];
+
+// Finds the config file to use: an explicit path, or the first default
+// config file present in the working directory
+export function resolveConfigPath(configPath?: string, cwd: string = process.cwd()): string {
+  if (configPath) {
+    const absolutePath = path.resolve(cwd, configPath);
+    if (!fs.existsSync(absolutePath)) {
+      throw new Error(`Config file '${configPath}' not found`);
+    }
+    return absolutePath;
+  }
+
+  const found = DEFAULT_CONFIG_FILES
+    .map(file => path.join(cwd, file))
+    .find(file => fs.existsSync(file));
+  if (!found) {
+    throw new Error(`No config file found, expected one of: ${DEFAULT_CONFIG_FILES.join(', ')}`);
+  }
+  return found;
+}
+
+export function loadConfig(configPath: string): CliConfig {
+  const config = readConfigFile(configPath);
+
+  if (!config || !config.project) {
+    throw new Error(`Config file '${configPath}' must define a 'project' configuration`);
+  }
+  if (!Array.isArray(config.routes) && !config.discoverRoutes) {
+    throw new Error(`Config file '${configPath}' must define a 'routes' array or enable 'discoverRoutes'`);
+  }
+  return { ...config, project: resolveProjectPaths(config.project, path.dirname(configPath)) } as CliConfig;
+}
+
+// Project paths in a config file are relative to the file, wherever the CLI
+// runs from. Without a tsConfigFilePath, a tsconfig.json next to the config
+// file is used if there is one, and the working directory's otherwise.
+function resolveProjectPaths(project: ProjectConfig, configDir: string): ProjectConfig {
+  const tsConfigFilePath = project.tsConfigFilePath
+    || (fs.existsSync(path.join(configDir, 'tsconfig.json')) ? 'tsconfig.json' : undefined);
+  return {
+    ...project,
+    rootDir: path.resolve(configDir, project.rootDir),
+    ...(tsConfigFilePath && { tsConfigFilePath: path.resolve(configDir, tsConfigFilePath) })
+  };
+}
+
+// Merge configs list the services to combine, each by its spec file or its
+// own config file
+export function loadMergeConfig(configPath: string): MergeConfig {
+  const config = readConfigFile(configPath);
+
+  if (!config || !Array.isArray(config.services) || config.services.length === 0) {
+    throw new Error(`Config file '${configPath}' must define a 'services' array`);
+  }
+  config.services.forEach((service: any, index: number) => {
+    if (!service?.name || (!service.spec && !service.config)) {
+      throw new Error(`Service ${index + 1} in '${configPath}' must have a 'name' and a 'spec' or 'config' file`);
+    }
+  });
+  return config as MergeConfig;
+}
+
+function readConfigFile(configPath: string): any {
+  const extension = path.extname(configPath);
+  let config: any;
+
+  if (extension === '.json') {
+    config = JSON.parse(fs.readFileSync(configPath, 'utf8'));
+  } else if (extension === '.ts') {
+    config = requireTypeScript(configPath);
+  } else {
+    config = require(configPath);
+  }
+
+  // Support both `export default {...}` and `module.exports = {...}`
+  return config?.default || config;
+}
+
+// TypeScript configs are transpiled in memory so no loader such as ts-node
+// is needed at runtime
+function requireTypeScript(configPath: string): unknown {
+  const source = fs.readFileSync(configPath, 'utf8');
+  const { outputText } = ts.transpileModule(source, {
+    compilerOptions: {
+      module: ts.ModuleKind.CommonJS,
+      target: ts.ScriptTarget.ES2020,
+      esModuleInterop: true
+    },
+    fileName: configPath
+  });
+
+  const configModule = new Module(configPath, module);
+  configModule.filename = configPath;
+  configModule.paths = (Module as any)._nodeModulePaths(path.dirname(configPath));
+  (configModule as any)._compile(outputText, configPath);
+  return configModule.exports;
+}
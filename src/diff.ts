@@ -0,0 +1,453 @@
+import { OpenAPIObject, OperationObject, ParameterObject, PathItemObject, ReferenceObject, RequestBodyObject, ResponseObject, SchemaObject, isReferenceObject } from 'openapi3-ts';
+import { ChangeReportFormat, SpecChange, SpecChangeCode } from './types';
+
+export const HTTP_METHODS = ['get', 'put', 'post', 'delete', 'options', 'head', 'patch', 'trace'] as const;
+
+// Requests are sent by clients and responses read by them, so the same
+// change to a schema can be breaking in one direction and safe in the other
+type Direction = 'request' | 'response';
+
+type DiffContext = {
+  previous: OpenAPIObject;
+  current: OpenAPIObject;
+  changes: SpecChange[];
+  operation?: string;
+  // Webhook requests are sent by the API and read by clients, so their
+  // requests and responses are compared the other way round
+  webhook?: boolean;
+};
+
+// Compares two versions of a spec. A change is breaking when a client
+// written against `previous` may fail against `current`.
+export function diffSpecs(previous: OpenAPIObject, current: OpenAPIObject): SpecChange[] {
+  const context: DiffContext = { previous, current, changes: [] };
+  diffPathItems(context, previous.paths || {}, current.paths || {});
+  diffPathItems({ ...context, webhook: true }, previous.webhooks || {}, current.webhooks || {});
+  return context.changes;
+}
+
+// Webhooks are compared like paths, but clients only receive them, so
+// adding or removing a webhook or one of its operations is not breaking
+function diffPathItems(
+  context: DiffContext,
+  previousItems: Record<string, PathItemObject | ReferenceObject>,
+  currentItems: Record<string, PathItemObject | ReferenceObject>
+): void {
+  const kind = context.webhook ? 'Webhook' : 'Path';
+  Object.keys(previousItems).forEach(route => {
+    if (!currentItems[route]) {
+      report(context, context.webhook ? 'webhook-removed' : 'path-removed', !context.webhook, `${kind} '${route}' was removed`);
+    }
+  });
+  Object.keys(currentItems).forEach(route => {
+    if (!previousItems[route]) {
+      report(context, context.webhook ? 'webhook-added' : 'path-added', false, `${kind} '${route}' was added`);
+      return;
+    }
+
+    const previousItem = resolve<PathItemObject>(context.previous, previousItems[route]);
+    const currentItem = resolve<PathItemObject>(context.current, currentItems[route]);
+    HTTP_METHODS.forEach(method => {
+      const operation = `${method.toUpperCase()} ${context.webhook ? `webhook ${route}` : route}`;
+      const previousOperation = previousItem[method] as OperationObject | undefined;
+      const currentOperation = currentItem[method] as OperationObject | undefined;
+      if (previousOperation && !currentOperation) {
+        report(context, 'operation-removed', !context.webhook, `Operation '${operation}' was removed`);
+      } else if (!previousOperation && currentOperation) {
+        report(context, 'operation-added', false, `Operation '${operation}' was added`);
+      } else if (previousOperation && currentOperation) {
+        const operationContext = { ...context, operation };
+        diffParameters(
+          operationContext,
+          [...(previousItem.parameters || []), ...(previousOperation.parameters || [])],
+          [...(currentItem.parameters || []), ...(currentOperation.parameters || [])]
+        );
+        diffRequestBody(operationContext, previousOperation.requestBody, currentOperation.requestBody);
+        diffResponses(operationContext, previousOperation.responses || {}, currentOperation.responses || {});
+        // How a webhook call is authenticated is up to its receiver
+        if (!context.webhook) {
+          diffSecurity(
+            operationContext,
+            previousOperation.security || context.previous.security || [],
+            currentOperation.security || context.current.security || []
+          );
+        }
+      }
+    });
+  });
+}
+
+function report(context: DiffContext, code: SpecChangeCode, breaking: boolean, message: string, location?: string): void {
+  context.changes.push({
+    code,
+    breaking,
+    ...(context.operation && { operation: context.operation }),
+    ...(location && { location }),
+    message
+  });
+}
+
+function resolve<T>(spec: OpenAPIObject, value: T | ReferenceObject): T {
+  let resolved: any = value;
+  const seen = new Set<string>();
+  while (resolved && isReferenceObject(resolved) && !seen.has(resolved.$ref)) {
+    seen.add(resolved.$ref);
+    resolved = resolved.$ref
+      .replace(/^#\//, '')
+      .split('/')
+      .reduce((node: any, key) => node?.[key.replace(/~1/g, '/').replace(/~0/g, '~')], spec);
+  }
+  return resolved;
+}
+
+// Parameters are matched by location and name; header names are
+// case-insensitive
+function diffParameters(
+  context: DiffContext,
+  previousParameters: Array<ParameterObject | ReferenceObject>,
+  currentParameters: Array<ParameterObject | ReferenceObject>
+): void {
+  const toMap = (spec: OpenAPIObject, parameters: Array<ParameterObject | ReferenceObject>) => new Map(
+    parameters
+      .map(parameter => resolve<ParameterObject>(spec, parameter))
+      .map(parameter => [`${parameter.in}:${parameter.in === 'header' ? parameter.name.toLowerCase() : parameter.name}`, parameter])
+  );
+  const previous = toMap(context.previous, previousParameters);
+  const current = toMap(context.current, currentParameters);
+  const moved = new Set<string>();
+  const direction = getRequestDirection(context);
+  const isRequest = direction === 'request';
+
+  previous.forEach((parameter, key) => {
+    if (current.has(key)) return;
+    const movedTo = [...current.entries()].find(([currentKey, candidate]) =>
+      candidate.name.toLowerCase() === parameter.name.toLowerCase() && !previous.has(currentKey)
+    );
+    if (movedTo) {
+      moved.add(movedTo[0]);
+      report(context, 'parameter-location-changed', true,
+        `Parameter '${parameter.name}' moved from ${parameter.in} to ${movedTo[1].in}`, `${movedTo[1].in}.${movedTo[1].name}`);
+    } else {
+      report(context, 'parameter-removed', !isRequest, `Parameter '${parameter.name}' was removed`, `${parameter.in}.${parameter.name}`);
+    }
+  });
+
+  current.forEach((parameter, key) => {
+    const location = `${parameter.in}.${parameter.name}`;
+    const previousParameter = previous.get(key);
+    if (!previousParameter) {
+      if (!moved.has(key)) {
+        report(context, 'parameter-added', isRequest && Boolean(parameter.required),
+          `${parameter.required ? 'Required' : 'Optional'} parameter '${parameter.name}' was added`, location);
+      }
+      return;
+    }
+
+    if (!previousParameter.required && parameter.required) {
+      report(context, 'parameter-required', isRequest, `Parameter '${parameter.name}' became required`, location);
+    } else if (previousParameter.required && !parameter.required) {
+      report(context, 'parameter-optional', !isRequest, `Parameter '${parameter.name}' became optional`, location);
+    }
+    if (previousParameter.schema && parameter.schema) {
+      diffSchemas(context, previousParameter.schema, parameter.schema, direction, location, new Set());
+    }
+  });
+}
+
+function diffRequestBody(
+  context: DiffContext,
+  previousBody: RequestBodyObject | ReferenceObject | undefined,
+  currentBody: RequestBodyObject | ReferenceObject | undefined
+): void {
+  const previous = previousBody && resolve<RequestBodyObject>(context.previous, previousBody);
+  const current = currentBody && resolve<RequestBodyObject>(context.current, currentBody);
+  const direction = getRequestDirection(context);
+  const isRequest = direction === 'request';
+
+  if (!previous && current) {
+    report(context, 'request-body-added', isRequest && Boolean(current.required),
+      `${current.required ? 'Required' : 'Optional'} request body was added`, 'request.body');
+    return;
+  }
+  if (previous && !current) {
+    report(context, 'request-body-removed', !isRequest, 'Request body was removed', 'request.body');
+    return;
+  }
+  if (!previous || !current) return;
+
+  if (!previous.required && current.required) {
+    report(context, 'request-body-required', isRequest, 'Request body became required', 'request.body');
+  }
+  diffContent(context, previous.content || {}, current.content || {}, direction, 'request.body');
+}
+
+function diffResponses(
+  context: DiffContext,
+  previousResponses: Record<string, ResponseObject | ReferenceObject>,
+  currentResponses: Record<string, ResponseObject | ReferenceObject>
+): void {
+  Object.keys(previousResponses).forEach(statusCode => {
+    if (!currentResponses[statusCode]) {
+      report(context, 'response-removed', true, `Response ${statusCode} was removed`, `response.${statusCode}`);
+    }
+  });
+  Object.entries(currentResponses).forEach(([statusCode, response]) => {
+    if (!previousResponses[statusCode]) {
+      report(context, 'response-added', false, `Response ${statusCode} was added`, `response.${statusCode}`);
+      return;
+    }
+    const previous = resolve<ResponseObject>(context.previous, previousResponses[statusCode]);
+    const current = resolve<ResponseObject>(context.current, response);
+    diffContent(context, previous.content || {}, current.content || {}, context.webhook ? 'request' : 'response', `response.${statusCode}.body`);
+  });
+}
+
+function diffContent(
+  context: DiffContext,
+  previousContent: Record<string, { schema?: SchemaObject | ReferenceObject }>,
+  currentContent: Record<string, { schema?: SchemaObject | ReferenceObject }>,
+  direction: Direction,
+  location: string
+): void {
+  Object.keys(previousContent).forEach(mediaType => {
+    if (!currentContent[mediaType]) {
+      report(context, 'media-type-removed', true, `Media type '${mediaType}' was removed`, location);
+    }
+  });
+  Object.entries(currentContent).forEach(([mediaType, media]) => {
+    const previousSchema = previousContent[mediaType]?.schema;
+    if (!previousContent[mediaType]) {
+      report(context, 'media-type-added', false, `Media type '${mediaType}' was added`, location);
+    } else if (previousSchema && media.schema) {
+      diffSchemas(context, previousSchema, media.schema, direction, location, new Set());
+    }
+  });
+}
+
+function getRequestDirection(context: DiffContext): Direction {
+  return context.webhook ? 'response' : 'request';
+}
+
+// A security list holds alternatives, each naming schemes that are all
+// needed with their scopes. A client that satisfied an old alternative
+// still gets in when a current one asks for no more schemes or scopes.
+function diffSecurity(
+  context: DiffContext,
+  previousSecurity: Array<Record<string, string[]>>,
+  currentSecurity: Array<Record<string, string[]>>
+): void {
+  // No requirements, or an empty one, allow anonymous access
+  const previous = previousSecurity.length > 0 ? previousSecurity : [{}];
+  const current = currentSecurity.length > 0 ? currentSecurity : [{}];
+  const isAnonymous = (requirement: Record<string, string[]>) => Object.keys(requirement).length === 0;
+  const isCovered = (requirement: Record<string, string[]>, by: Record<string, string[]>) =>
+    Object.entries(requirement).every(([name, scopes]) => by[name] && scopes.every(scope => by[name].includes(scope)));
+  const describe = (requirement: Record<string, string[]>) => Object.entries(requirement)
+    .map(([name, scopes]) => scopes.length > 0 ? `${name} (${scopes.join(', ')})` : name)
+    .join(' + ');
+
+  if (previous.some(isAnonymous) && !current.some(isAnonymous)) {
+    report(context, 'security-added', true, 'Operation now requires authentication');
+  } else if (!previous.some(isAnonymous) && current.some(isAnonymous)) {
+    report(context, 'security-removed', false, 'Operation no longer requires authentication');
+  }
+  if (previous.some(isAnonymous) || current.some(isAnonymous)) return;
+
+  previous
+    .filter(requirement => !current.some(candidate => isCovered(candidate, requirement)))
+    .forEach(requirement => report(context, 'security-changed', true, `Security requirement '${describe(requirement)}' is no longer accepted`));
+  current
+    .filter(requirement => !previous.some(candidate => isCovered(candidate, requirement) && isCovered(requirement, candidate)))
+    .forEach(requirement => report(context, 'security-changed', false, `Security requirement '${describe(requirement)}' was added`));
+}
+
+function diffSchemas(
+  context: DiffContext,
+  previousSchema: SchemaObject | ReferenceObject,
+  currentSchema: SchemaObject | ReferenceObject,
+  direction: Direction,
+  location: string,
+  seen: Set<string>
+): void {
+  // Recursive types are compared once per pair of components
+  if (isReferenceObject(previousSchema) && isReferenceObject(currentSchema)) {
+    const key = `${previousSchema.$ref}|${currentSchema.$ref}`;
+    if (seen.has(key)) return;
+    seen = new Set(seen).add(key);
+  }
+
+  const previous = flattenSchema(context.previous, previousSchema);
+  const current = flattenSchema(context.current, currentSchema);
+  const isRequest = direction === 'request';
+
+  // A schema that is not a union is compared as a union of itself, so a
+  // type that became nullable through `oneOf: [type, null]` gains a variant
+  const previousVariants = previous.oneOf || previous.anyOf;
+  const currentVariants = current.oneOf || current.anyOf;
+  if (previousVariants || currentVariants) {
+    diffVariants(context, previousVariants || [previousSchema], currentVariants || [currentSchema], direction, location, seen);
+    return;
+  }
+
+  // Requests may accept more types and responses return fewer
+  const previousTypes = getTypes(previous);
+  const currentTypes = getTypes(current);
+  if (previousTypes.length > 0 && currentTypes.length > 0) {
+    const removed = previousTypes.filter(type => !currentTypes.includes(type));
+    const added = currentTypes.filter(type => !previousTypes.includes(type));
+    if (removed.length > 0 || added.length > 0) {
+      report(context, 'type-changed', isRequest ? removed.length > 0 : added.length > 0,
+        `Type changed from ${previousTypes.join(' | ')} to ${currentTypes.join(' | ')}`, location);
+    }
+    if (!previousTypes.some(type => currentTypes.includes(type))) return;
+  }
+
+  const previousEnum = previous.enum;
+  const currentEnum = current.enum;
+  const describe = (values: unknown[]) => values.map(value => JSON.stringify(value)).join(', ');
+  if (previousEnum && currentEnum) {
+    const removed = previousEnum.filter(value => !currentEnum.includes(value));
+    const added = currentEnum.filter(value => !previousEnum.includes(value));
+    if (removed.length > 0) {
+      report(context, 'enum-narrowed', isRequest, `No longer allows ${describe(removed)}`, location);
+    }
+    if (added.length > 0) {
+      report(context, 'enum-widened', !isRequest, `Now allows ${describe(added)}`, location);
+    }
+  } else if (currentEnum) {
+    report(context, 'enum-narrowed', isRequest, `Now only allows ${describe(currentEnum)}`, location);
+  } else if (previousEnum) {
+    report(context, 'enum-widened', !isRequest, `No longer restricted to ${describe(previousEnum)}`, location);
+  }
+
+  const previousProperties = previous.properties || {};
+  const currentProperties = current.properties || {};
+  const previousRequired = previous.required || [];
+  const currentRequired = current.required || [];
+  Object.keys(previousProperties).forEach(name => {
+    if (!currentProperties[name]) {
+      report(context, 'property-removed', !isRequest, `Property '${name}' was removed`, `${location}.${name}`);
+    }
+  });
+  Object.entries(currentProperties).forEach(([name, schema]) => {
+    const propertyLocation = `${location}.${name}`;
+    const required = currentRequired.includes(name);
+    if (!previousProperties[name]) {
+      report(context, 'property-added', isRequest && required,
+        `${required ? 'Required' : 'Optional'} property '${name}' was added`, propertyLocation);
+      return;
+    }
+
+    const wasRequired = previousRequired.includes(name);
+    if (!wasRequired && required) {
+      report(context, 'property-required', isRequest, `Property '${name}' became required`, propertyLocation);
+    } else if (wasRequired && !required) {
+      report(context, 'property-optional', !isRequest, `Property '${name}' became optional`, propertyLocation);
+    }
+    diffSchemas(context, previousProperties[name], schema, direction, propertyLocation, seen);
+  });
+
+  if (previous.items && current.items) {
+    diffSchemas(context, previous.items, current.items, direction, `${location}[]`, seen);
+  }
+}
+
+// Variants are matched by `$ref`, `null` by its type and inline members in
+// order. Requests may accept more variants and responses return fewer.
+function diffVariants(
+  context: DiffContext,
+  previousVariants: Array<SchemaObject | ReferenceObject>,
+  currentVariants: Array<SchemaObject | ReferenceObject>,
+  direction: Direction,
+  location: string,
+  seen: Set<string>
+): void {
+  const isRequest = direction === 'request';
+  const matches = new Map<number, number>();
+  previousVariants.forEach((variant, index) => {
+    const key = getVariantKey(variant);
+    const match = key ? currentVariants.findIndex(candidate => getVariantKey(candidate) === key) : -1;
+    if (match >= 0) matches.set(index, match);
+  });
+  const inline = currentVariants.map((_, index) => index).filter(index => !getVariantKey(currentVariants[index]));
+  previousVariants.forEach((variant, index) => {
+    if (!getVariantKey(variant) && inline.length > 0) matches.set(index, inline.shift() as number);
+  });
+
+  previousVariants.forEach((variant, index) => {
+    const match = matches.get(index);
+    if (match === undefined) {
+      report(context, 'variant-removed', isRequest, `Variant ${getVariantName(variant, index)} was removed`, location);
+    } else {
+      diffSchemas(context, variant, currentVariants[match], direction, location, seen);
+    }
+  });
+  const matched = new Set(matches.values());
+  currentVariants.forEach((variant, index) => {
+    if (!matched.has(index)) {
+      report(context, 'variant-added', !isRequest, `Variant ${getVariantName(variant, index)} was added`, location);
+    }
+  });
+}
+
+function getVariantKey(variant: SchemaObject | ReferenceObject): string | undefined {
+  if (isReferenceObject(variant)) return variant.$ref;
+  return variant.type === 'null' ? 'null' : undefined;
+}
+
+function getVariantName(variant: SchemaObject | ReferenceObject, index: number): string {
+  const key = getVariantKey(variant);
+  return key ? `'${key.split('/').pop()}'` : String(index + 1);
+}
+
+// Members of an allOf are merged, so properties moved into a shared base
+// type are not reported as changes
+function flattenSchema(spec: OpenAPIObject, schema: SchemaObject | ReferenceObject): SchemaObject {
+  const resolved = resolve<SchemaObject>(spec, schema);
+  if (!resolved?.allOf) {
+    return resolved || {};
+  }
+
+  const { allOf, ...rest } = resolved;
+  return allOf.map(member => flattenSchema(spec, member)).reduce<SchemaObject>((merged, member) => ({
+    ...member,
+    ...merged,
+    properties: { ...member.properties, ...merged.properties },
+    required: [...new Set([...(merged.required || []), ...(member.required || [])])]
+  }), rest);
+}
+
+// Nullable 3.0 schemas and 3.1 type arrays are compared alike
+function getTypes(schema: SchemaObject): string[] {
+  const types: string[] = Array.isArray(schema.type) ? [...schema.type] : schema.type ? [schema.type] : [];
+  if (types.length === 0 && schema.properties) {
+    types.push('object');
+  }
+  if (schema.nullable && types.length > 0) {
+    types.push('null');
+  }
+  return types;
+}
+
+// Breaking changes are listed first; the JSON report is meant for tools
+export function formatChanges(changes: SpecChange[], format: ChangeReportFormat = 'text'): string {
+  const breaking = changes.filter(change => change.breaking);
+  const nonBreaking = changes.filter(change => !change.breaking);
+
+  if (format === 'json') {
+    return JSON.stringify({ breaking: breaking.length, nonBreaking: nonBreaking.length, changes: [...breaking, ...nonBreaking] }, null, 2);
+  }
+  if (changes.length === 0) {
+    return 'No changes';
+  }
+
+  const formatChange = (change: SpecChange) => {
+    const target = [change.operation, change.location].filter(Boolean).join(' ');
+    return `  [${change.code}] ${target ? `${target}: ` : ''}${change.message}`;
+  };
+  return [
+    ...(breaking.length > 0 ? ['Breaking changes:', ...breaking.map(formatChange), ''] : []),
+    ...(nonBreaking.length > 0 ? ['Non-breaking changes:', ...nonBreaking.map(formatChange), ''] : []),
+    `${breaking.length} breaking, ${nonBreaking.length} non-breaking change(s)`
+  ].join('\n');
+}
@@ -0,0 +1,272 @@
+import { OpenAPIObject, ReferenceObject, SchemaObject, isReferenceObject } from 'openapi3-ts';
+import { resolve } from './validation';
+
+export type ExampleOptions = {
+  seed?: number;
+  // Request examples leave out readOnly properties, response examples writeOnly ones
+  direction?: 'request' | 'response';
+};
+
+type Schema = SchemaObject & {
+  const?: unknown;
+  examples?: unknown[];
+  contentMediaType?: string;
+  prefixItems?: Array<SchemaObject | ReferenceObject>;
+};
+
+const FIRST_NAMES = ['Ada', 'Grace', 'Alan', 'Katherine', 'Linus', 'Margaret', 'Dennis', 'Barbara'];
+const LAST_NAMES = ['Lovelace', 'Hopper', 'Turing', 'Johnson', 'Torvalds', 'Hamilton', 'Ritchie', 'Liskov'];
+const CITIES = ['London', 'Sydney', 'Toronto', 'Berlin', 'Tokyo', 'Nairobi', 'Lisbon', 'Austin'];
+const COUNTRIES = ['GB', 'AU', 'CA', 'DE', 'JP', 'KE', 'PT', 'US'];
+const STREETS = ['Baker Street', 'George Street', 'Queen Street', 'Main Street', 'High Street'];
+const TITLES = ['Getting started', 'Release notes', 'Quarterly report', 'Design review', 'Weekly update'];
+const SENTENCES = [
+  'The quick brown fox jumps over the lazy dog.',
+  'A short description for illustration.',
+  'Lorem ipsum dolor sit amet, consectetur adipiscing elit.',
+  'Everything you need to know, in one place.'
+];
+const WORDS = ['alpha', 'bravo', 'charlie', 'delta', 'echo', 'foxtrot', 'golf', 'hotel'];
+const COLORS = ['red', 'green', 'blue', 'orange', 'purple', 'teal'];
+const FRACTIONAL_NAME_PATTERN = /(price|amount|cost|balance|fee|rate|ratio|percent|percentage|score|latitude|longitude|lat|lng|weight)$/;
+const BASE_TIME = Date.UTC(2024, 0, 1);
+const DAY = 24 * 60 * 60 * 1000;
+
+// Builds an example value for a schema. `example`, `examples` and `default`
+// values from the schema win; everything else is synthesized from the type,
+// format, bounds and property name. Each value depends only on the seed and
+// its path in the payload, so unrelated schema changes leave it as it was.
+export function generateExample(
+  schema: SchemaObject | ReferenceObject,
+  spec: OpenAPIObject,
+  options: ExampleOptions = {}
+): unknown {
+  const seed = options.seed ?? 1;
+
+  const build = (current: SchemaObject | ReferenceObject, location: string, refs: string[]): unknown => {
+    if (isReferenceObject(current)) {
+      // Recursive types end where they would repeat
+      if (refs.includes(current.$ref)) return undefined;
+      return build(resolve(spec, current), location, [...refs, current.$ref]);
+    }
+
+    const schema = current as Schema;
+    if (schema.example !== undefined) return clone(schema.example);
+    if (schema.examples && schema.examples.length > 0) return clone(schema.examples[0]);
+    if (schema.default !== undefined) return clone(schema.default);
+    if (schema.const !== undefined) return clone(schema.const);
+    if (schema.enum && schema.enum.length > 0) return pick(schema.enum, seed, location);
+
+    if (schema.allOf) {
+      const members = schema.allOf.map(member => build(member, location, refs));
+      return members.every(isObject) ? Object.assign({}, ...members) : members.find(member => member !== undefined);
+    }
+    const variants = schema.oneOf || schema.anyOf;
+    if (variants) {
+      const candidates = variants.filter(variant => isReferenceObject(variant) || variant.type !== 'null');
+      return candidates.length > 0 ? build(pick(candidates, seed, location), location, refs) : null;
+    }
+
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    const type = types.find(candidate => candidate && candidate !== 'null')
+      || (schema.properties || schema.additionalProperties ? 'object' : types[0]);
+
+    switch (type) {
+      case 'object': {
+        const value: Record<string, unknown> = {};
+        Object.entries(schema.properties || {}).forEach(([name, property]) => {
+          if (!isReferenceObject(property)) {
+            if (options.direction === 'request' && property.readOnly) return;
+            if (options.direction === 'response' && property.writeOnly) return;
+          }
+          const propertyValue = build(property, `${location}.${name}`, refs);
+          if (propertyValue !== undefined) value[name] = propertyValue;
+        });
+        if (!schema.properties && isObject(schema.additionalProperties)) {
+          const propertyValue = build(schema.additionalProperties as SchemaObject, `${location}.key`, refs);
+          if (propertyValue !== undefined) value.key = propertyValue;
+        }
+        return value;
+      }
+      case 'array': {
+        // Tuples in 3.1 give each position its own schema in prefixItems
+        const prefixItems = schema.prefixItems || [];
+        const count = Math.min(Math.max(schema.minItems ?? 1, prefixItems.length, 1), schema.maxItems ?? Infinity);
+        const items: unknown[] = [];
+        for (let index = 0; index < count; index++) {
+          const itemSchema = index < prefixItems.length ? prefixItems[index] : schema.items;
+          const item = itemSchema && build(itemSchema, `${location}[${index}]`, refs);
+          if (item === undefined) break;
+          items.push(item);
+        }
+        return items;
+      }
+      case 'integer':
+      case 'number':
+        return numberExample(schema, type === 'integer', seed, location);
+      case 'boolean':
+        return random(seed, location) < 0.5;
+      case 'null':
+        return null;
+      default:
+        if (schema.format === 'binary' || schema.contentMediaType) return undefined;
+        return stringExample(schema, seed, location);
+    }
+  };
+
+  return build(schema, '', []);
+}
+
+function stringExample(schema: Schema, seed: number, location: string): string {
+  const at = (values: string[]) => pick(values, seed, location);
+  const number = (min: number, max: number) => min + Math.floor(random(seed, `${location}#n`) * (max - min + 1));
+  const time = () => new Date(BASE_TIME + Math.floor(random(seed, location) * 365 * DAY / 1000) * 1000);
+
+  let value: string;
+  switch (schema.format) {
+    case 'date-time': value = time().toISOString().replace('.000', ''); break;
+    case 'date': value = time().toISOString().slice(0, 10); break;
+    case 'time': value = time().toISOString().slice(11, 19); break;
+    case 'email': value = email(at(FIRST_NAMES), at(LAST_NAMES)); break;
+    case 'uuid': value = uuid(seed, location); break;
+    case 'uri':
+    case 'url': value = `https://example.com/${at(WORDS)}`; break;
+    case 'hostname': value = `${at(WORDS)}.example.com`; break;
+    case 'ipv4': value = `192.0.2.${number(1, 254)}`; break;
+    case 'ipv6': value = `2001:db8::${number(1, 65535).toString(16)}`; break;
+    case 'byte': value = Buffer.from(at(WORDS)).toString('base64'); break;
+    default:
+      value = nameExample(propertyName(location), at, number, time, seed, location);
+  }
+
+  if (schema.minLength !== undefined && value.length < schema.minLength) {
+    value = value.padEnd(schema.minLength, value || 'x');
+  }
+  if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+    value = value.slice(0, schema.maxLength);
+  }
+  return value;
+}
+
+// Strings without a format are guessed from the property name, so `email`,
+// `createdAt` and `city` look like what they hold
+function nameExample(
+  property: string,
+  at: (values: string[]) => string,
+  number: (min: number, max: number) => number,
+  time: () => Date,
+  seed: number,
+  location: string
+): string {
+  const name = property.toLowerCase();
+  if (isIdentifier(property)) return uuid(seed, location);
+  if (/(At|_at|Date|_date|Time|_time|Timestamp|_timestamp)$/.test(property) || /^(date|time|timestamp)$/.test(name)) {
+    return time().toISOString().replace('.000', '');
+  }
+  if (name.includes('email')) return email(at(FIRST_NAMES), at(LAST_NAMES));
+  if (/(url|uri|link|website|avatar|image)$/.test(name)) return `https://example.com/${at(WORDS)}`;
+  if (name.includes('phone')) return `+1-555-01${String(number(0, 99)).padStart(2, '0')}`;
+  if (/^first_?name$/.test(name)) return at(FIRST_NAMES);
+  if (/^(last_?name|surname)$/.test(name)) return at(LAST_NAMES);
+  if (/^(user_?name|login|handle)$/.test(name)) return `${at(FIRST_NAMES).toLowerCase()}${number(1, 99)}`;
+  if (name.endsWith('filename')) return `${at(WORDS)}.txt`;
+  if (name.endsWith('name')) return `${at(FIRST_NAMES)} ${at(LAST_NAMES)}`;
+  if (/^(title|subject|headline)$/.test(name)) return at(TITLES);
+  if (/(description|summary|bio|body|content|text|message|comment|note)s?$/.test(name)) return at(SENTENCES);
+  if (name.includes('city')) return at(CITIES);
+  if (name.includes('country')) return at(COUNTRIES);
+  if (/(street|address|line1)$/.test(name)) return `${number(1, 250)} ${at(STREETS)}`;
+  if (/(zip|postcode|postal_?code)$/.test(name)) return String(number(10000, 99999));
+  if (/colou?r$/.test(name)) return at(COLORS);
+  if (name === 'currency') return at(['USD', 'EUR', 'GBP', 'AUD']);
+  if (/^(locale|language|lang)$/.test(name)) return at(['en-US', 'en-GB', 'de-DE', 'ja-JP']);
+  if (name.includes('password')) return 'correct-horse-battery-staple';
+  if (/(token|secret|hash)$/.test(name)) return uuid(seed, location).replace(/-/g, '');
+  if (name === 'slug') return `${at(WORDS)}-${at(WORDS)}`;
+  return at(WORDS);
+}
+
+function numberExample(schema: Schema, integer: boolean, seed: number, location: string): number {
+  const property = propertyName(location);
+  const name = property.toLowerCase();
+  const [defaultMin, defaultMax] = isIdentifier(property)
+    ? [1, 1000]
+    : /(price|amount|cost|balance|fee)$/.test(name) ? [1, 500] : name === 'age' ? [18, 90] : [1, 100];
+
+  // OpenAPI 3.0 marks bounds exclusive with booleans, 3.1 gives the bound itself
+  const exclusiveMinimum = schema.exclusiveMinimum as boolean | number | undefined;
+  const exclusiveMaximum = schema.exclusiveMaximum as boolean | number | undefined;
+  // TypeScript has a single number type, so numbers are whole unless their
+  // name, format or bounds suggest fractions
+  const bounds = [schema.minimum, schema.maximum, exclusiveMinimum, exclusiveMaximum, schema.multipleOf];
+  const whole = integer || (
+    !FRACTIONAL_NAME_PATTERN.test(name)
+    && !['float', 'double'].includes(schema.format || '')
+    && bounds.every(bound => typeof bound !== 'number' || Number.isInteger(bound))
+  );
+  const step = whole ? 1 : 0.01;
+  let min = typeof exclusiveMinimum === 'number' ? exclusiveMinimum + step : schema.minimum;
+  let max = typeof exclusiveMaximum === 'number' ? exclusiveMaximum - step : schema.maximum;
+  if (min !== undefined && exclusiveMinimum === true) min += step;
+  if (max !== undefined && exclusiveMaximum === true) max -= step;
+  min = min ?? (max !== undefined ? Math.min(defaultMin, max) : defaultMin);
+  max = max ?? Math.max(defaultMax, min);
+
+  if (schema.multipleOf) {
+    const first = Math.ceil(min / schema.multipleOf);
+    const count = Math.max(Math.floor(max / schema.multipleOf) - first, 0);
+    return (first + Math.floor(random(seed, location) * (count + 1))) * schema.multipleOf;
+  }
+  if (whole) {
+    const low = Math.ceil(min);
+    return low + Math.floor(random(seed, location) * (Math.floor(max) - low + 1));
+  }
+  return Math.min(Math.round((min + random(seed, location) * (max - min)) * 100) / 100, max);
+}
+
+function email(firstName: string, lastName: string): string {
+  return `${firstName}.${lastName}@example.com`.toLowerCase();
+}
+
+function uuid(seed: number, location: string): string {
+  const hex = Array.from({ length: 32 }, (_, index) => Math.floor(random(seed, `${location}#${index}`) * 16).toString(16));
+  hex[12] = '4';
+  hex[16] = '8';
+  const text = hex.join('');
+  return `${text.slice(0, 8)}-${text.slice(8, 12)}-${text.slice(12, 16)}-${text.slice(16, 20)}-${text.slice(20)}`;
+}
+
+// `id`, `userId`, `user_id` and `ID`
+function isIdentifier(property: string): boolean {
+  return /^id$/i.test(property) || /(Id|_id|ID)$/.test(property);
+}
+
+function propertyName(location: string): string {
+  const match = location.match(/([^.[\]]+)(\[\d+\])*$/);
+  return match ? match[1] : '';
+}
+
+function pick<T>(values: T[], seed: number, location: string): T {
+  return values[Math.floor(random(seed, location) * values.length)];
+}
+
+// A number in [0, 1) derived from the seed and the location, using FNV-1a
+// to hash them and one round of mulberry32 to spread the bits
+function random(seed: number, location: string): number {
+  let hash = 2166136261 ^ seed;
+  for (let index = 0; index < location.length; index++) {
+    hash = Math.imul(hash ^ location.charCodeAt(index), 16777619);
+  }
+  let value = (hash + 0x6d2b79f5) | 0;
+  value = Math.imul(value ^ (value >>> 15), value | 1);
+  value ^= value + Math.imul(value ^ (value >>> 7), value | 61);
+  return ((value ^ (value >>> 14)) >>> 0) / 4294967296;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function clone<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value));
+}
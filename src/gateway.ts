@@ -0,0 +1,109 @@
+import { OperationObject } from 'openapi3-ts';
+import { ApiGatewayAuthorizer, ApiGatewayIntegration, CorsConfiguration, RequestValidator } from './types';
+
+const DEFAULT_CORS_HEADERS = ['Content-Type', 'Authorization', 'X-Amz-Date', 'X-Api-Key', 'X-Amz-Security-Token'];
+
+export const REQUEST_VALIDATORS: Record<RequestValidator, { validateRequestBody: boolean; validateRequestParameters: boolean }> = {
+  'all': { validateRequestBody: true, validateRequestParameters: true },
+  'params-only': { validateRequestBody: false, validateRequestParameters: true },
+  'body-only': { validateRequestBody: true, validateRequestParameters: false }
+};
+
+export type IntegrationContext = {
+  functionName?: string;
+  operationId: string;
+  // Status code non-proxy integrations map Lambda results to
+  statusCode: number;
+};
+
+// Builds `x-amazon-apigateway-integration` for a Lambda integration. The ARN
+// may use `${functionName}` and `${operationId}`; other placeholders such as
+// `${AWS::Region}` are kept for `Fn::Sub`.
+export function buildIntegration(integration: ApiGatewayIntegration, context: IntegrationContext): Record<string, unknown> {
+  if (!integration.lambdaArn) {
+    throw new Error(`Integration for operation '${context.operationId}' has no lambdaArn`);
+  }
+
+  const lambdaArn = integration.lambdaArn
+    .replace(/\$\{functionName\}/g, context.functionName || context.operationId)
+    .replace(/\$\{operationId\}/g, context.operationId);
+  const proxy = integration.proxy !== false;
+
+  return {
+    type: proxy ? 'aws_proxy' : 'aws',
+    httpMethod: 'POST',
+    uri: toInvocationUri(lambdaArn, integration.region),
+    ...(integration.timeoutInMillis && { timeoutInMillis: integration.timeoutInMillis }),
+    ...(integration.credentials && { credentials: integration.credentials }),
+    ...(!proxy && {
+      passthroughBehavior: 'when_no_templates',
+      responses: { default: { statusCode: String(context.statusCode) } }
+    })
+  };
+}
+
+// Lambda functions are invoked through the API Gateway service path; the
+// region defaults to the one in the function ARN
+export function toInvocationUri(lambdaArn: string, region?: string): string {
+  if (lambdaArn.startsWith('arn:aws:apigateway:')) {
+    return lambdaArn;
+  }
+  const invocationRegion = region || lambdaArn.split(':')[3];
+  return `arn:aws:apigateway:${invocationRegion}:lambda:path/2015-03-31/functions/${lambdaArn}/invocations`;
+}
+
+// Answers CORS preflight requests from API Gateway itself with a mock
+// integration, without invoking a Lambda
+export function buildCorsOperation(cors: CorsConfiguration, methods: string[]): OperationObject {
+  const allowMethods = [...methods.map(method => method.toUpperCase()), 'OPTIONS'].join(',');
+  const allowHeaders = (cors.allowHeaders || DEFAULT_CORS_HEADERS).join(',');
+  const headers: Record<string, string> = {
+    'Access-Control-Allow-Origin': cors.allowOrigin,
+    'Access-Control-Allow-Methods': allowMethods,
+    'Access-Control-Allow-Headers': allowHeaders,
+    ...(cors.allowCredentials && { 'Access-Control-Allow-Credentials': 'true' }),
+    ...(cors.maxAge !== undefined && { 'Access-Control-Max-Age': String(cors.maxAge) })
+  };
+
+  return {
+    summary: 'CORS preflight',
+    responses: {
+      '200': {
+        description: 'CORS preflight response',
+        headers: Object.fromEntries(Object.keys(headers).map(name => [name, { schema: { type: 'string' } }]))
+      }
+    },
+    'x-amazon-apigateway-integration': {
+      type: 'mock',
+      requestTemplates: { 'application/json': '{"statusCode": 200}' },
+      passthroughBehavior: 'when_no_match',
+      responses: {
+        default: {
+          statusCode: '200',
+          responseParameters: Object.fromEntries(Object.entries(headers).map(([name, value]) =>
+            [`method.response.header.${name}`, `'${value}'`]
+          ))
+        }
+      }
+    }
+  };
+}
+
+// Extensions API Gateway reads from a security scheme to set up Lambda,
+// Cognito and JWT authorizers
+export function buildAuthorizerExtensions(authorizer: ApiGatewayAuthorizer): Record<string, unknown> {
+  const { type, lambdaArn, ...settings } = authorizer;
+  const extension = {
+    type,
+    ...settings,
+    ...(lambdaArn && { authorizerUri: toInvocationUri(lambdaArn) })
+  };
+
+  if (type === 'jwt') {
+    return { 'x-amazon-apigateway-authorizer': extension };
+  }
+  return {
+    'x-amazon-apigateway-authtype': type === 'cognito_user_pools' ? 'cognito_user_pools' : 'custom',
+    'x-amazon-apigateway-authorizer': extension
+  };
+}
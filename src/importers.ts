@@ -0,0 +1,357 @@
+import * as fs from 'fs';
+import { parse, CollectionTag, ScalarTag } from 'yaml';
+import { ImportedRoute, ImportedRoutes, RouteDefinition, SecurityScheme } from './types';
+
+const ROUTE_METHODS: Array<RouteDefinition['method']> = ['get', 'post', 'put', 'delete', 'patch'];
+
+const FUNCTION_TYPES = ['AWS::Lambda::Function', 'AWS::Serverless::Function'];
+
+// Security scheme used for routes that are signed with IAM credentials
+const IAM_SECURITY_SCHEME = 'sigv4';
+
+// CloudFormation intrinsic functions written with the short YAML syntax,
+// such as `!Ref UsersApi` or `!GetAtt UsersFunction.Arn`
+const CLOUDFORMATION_FUNCTIONS = ['Base64', 'Cidr', 'FindInMap', 'GetAtt', 'GetAZs', 'ImportValue', 'Join', 'Select', 'Split', 'Sub', 'Transform', 'And', 'Equals', 'If', 'Not', 'Or'];
+
+const cloudFormationTags: Array<ScalarTag | CollectionTag> = [
+  ...['Ref', 'Condition'].map(name => ({ name, key: name })),
+  ...CLOUDFORMATION_FUNCTIONS.map(name => ({ name, key: `Fn::${name}` }))
+].flatMap(({ name, key }) => [
+  {
+    tag: `!${name}`,
+    resolve: (value: string) => ({ [key]: name === 'GetAtt' ? value.split('.') : value })
+  },
+  {
+    tag: `!${name}`,
+    collection: 'seq' as const,
+    resolve: (value: any) => ({ [key]: value.toJSON() })
+  },
+  {
+    tag: `!${name}`,
+    collection: 'map' as const,
+    resolve: (value: any) => ({ [key]: value.toJSON() })
+  }
+]);
+
+const emptyRoutes = (): ImportedRoutes => ({ routes: [], securitySchemes: {} });
+
+// Reads routes from a serverless.yml, a SAM template or a CloudFormation
+// template written by `cdk synth`, picking the importer from the content
+export function importRoutes(filePath: string): ImportedRoutes {
+  const document = readDocument(filePath);
+
+  if (document?.functions && document?.provider) {
+    return importServerlessDocument(document);
+  }
+  if (document?.Resources) {
+    return importCloudFormationDocument(document);
+  }
+  throw new Error(`'${filePath}' is neither a Serverless Framework config nor a CloudFormation template`);
+}
+
+export function importServerlessRoutes(filePath: string): ImportedRoutes {
+  return importServerlessDocument(readDocument(filePath));
+}
+
+// SAM templates and `cdk synth` output are both CloudFormation templates
+export function importCloudFormationRoutes(filePath: string): ImportedRoutes {
+  return importCloudFormationDocument(readDocument(filePath));
+}
+
+function readDocument(filePath: string): any {
+  const content = fs.readFileSync(filePath, 'utf8');
+  return filePath.endsWith('.json')
+    ? JSON.parse(content)
+    : parse(content, { customTags: cloudFormationTags });
+}
+
+function importServerlessDocument(document: any): ImportedRoutes {
+  const imported = emptyRoutes();
+  const httpApiAuthorizers = document.provider?.httpApi?.authorizers || {};
+
+  Object.entries<any>(document.functions || {}).forEach(([functionName, fn]) => {
+    (fn?.events || []).forEach((event: any) => {
+      if (event.http) {
+        // `http: GET users/{userId}` or `http: { method, path, authorizer }`
+        const http = typeof event.http === 'string' ? parseRouteKey(event.http) : event.http;
+        const security = getServerlessHttpAuthorizer(http.authorizer, imported.securitySchemes);
+        addRoutes(imported, functionName, http.method, http.path, security);
+      } else if (event.httpApi) {
+        const httpApi = typeof event.httpApi === 'string' ? parseRouteKey(event.httpApi) : event.httpApi;
+        const security = getServerlessHttpApiAuthorizer(httpApi.authorizer, httpApiAuthorizers, imported.securitySchemes);
+        addRoutes(imported, functionName, httpApi.method, httpApi.path, security);
+      }
+    });
+  });
+
+  return imported;
+}
+
+// REST API authorizers are a function name, an ARN, `aws_iam` or an object
+// with a `type` of TOKEN, REQUEST or COGNITO_USER_POOLS
+function getServerlessHttpAuthorizer(authorizer: any, securitySchemes: Record<string, SecurityScheme>): string | undefined {
+  if (!authorizer) {
+    return undefined;
+  }
+  if (authorizer === 'aws_iam' || authorizer.type === 'aws_iam' || authorizer.type === 'AWS_IAM') {
+    return addIamScheme(securitySchemes);
+  }
+
+  const reference: string = typeof authorizer === 'string' ? authorizer : authorizer.name || authorizer.arn || '';
+  const name = getAuthorizerName(reference);
+  const type = String(authorizer.type || '').toUpperCase();
+
+  if (type === 'COGNITO_USER_POOLS' || reference.includes(':cognito-idp:')) {
+    securitySchemes[name] = jwtScheme();
+  } else {
+    securitySchemes[name] = headerScheme(getIdentityHeader(authorizer.identitySource));
+  }
+  return name;
+}
+
+// HTTP API authorizers are declared once under `provider.httpApi.authorizers`
+// and referenced by name
+function getServerlessHttpApiAuthorizer(
+  authorizer: any,
+  authorizers: Record<string, any>,
+  securitySchemes: Record<string, SecurityScheme>
+): string | undefined {
+  if (!authorizer) {
+    return undefined;
+  }
+  if (authorizer.type === 'aws_iam') {
+    return addIamScheme(securitySchemes);
+  }
+
+  const name: string = typeof authorizer === 'string' ? authorizer : authorizer.name;
+  const definition = authorizers[name] || {};
+  securitySchemes[name] = definition.type === 'request'
+    ? headerScheme(getIdentityHeader(definition.identitySource))
+    : jwtScheme();
+  return name;
+}
+
+function importCloudFormationDocument(document: any): ImportedRoutes {
+  const imported = emptyRoutes();
+  const resources: Record<string, any> = document.Resources || {};
+
+  Object.entries(resources).forEach(([logicalId, resource]) => {
+    switch (resource?.Type) {
+      case 'AWS::Serverless::Function':
+        importSamFunction(imported, document, logicalId, resource);
+        break;
+      case 'AWS::ApiGateway::Method':
+        importRestApiMethod(imported, resources, resource);
+        break;
+      case 'AWS::ApiGatewayV2::Route':
+        importHttpApiRoute(imported, resources, resource);
+        break;
+    }
+  });
+
+  return imported;
+}
+
+function importSamFunction(imported: ImportedRoutes, document: any, functionName: string, resource: any): void {
+  Object.values<any>(resource.Properties?.Events || {}).forEach(event => {
+    if (event?.Type !== 'Api' && event?.Type !== 'HttpApi') {
+      return;
+    }
+
+    const properties = event.Properties || {};
+    // HTTP API events without a path catch every route
+    if (!properties.Path) {
+      return;
+    }
+
+    const globals = document.Globals?.[event.Type] || {};
+    const apiId = properties.RestApiId?.Ref || properties.ApiId?.Ref;
+    const api = apiId ? document.Resources[apiId]?.Properties || {} : globals;
+    const auth = api.Auth || {};
+    const authorizer = properties.Auth?.Authorizer || auth.DefaultAuthorizer;
+
+    let security: string | undefined;
+    if (authorizer === 'AWS_IAM') {
+      security = addIamScheme(imported.securitySchemes);
+    } else if (authorizer && authorizer !== 'NONE') {
+      const definition = auth.Authorizers?.[authorizer] || {};
+      imported.securitySchemes[authorizer] = definition.FunctionArn
+        ? headerScheme(definition.Identity?.Header || 'Authorization')
+        : jwtScheme();
+      security = authorizer;
+    }
+
+    addRoutes(imported, functionName, properties.Method, properties.Path, security);
+  });
+}
+
+function importRestApiMethod(imported: ImportedRoutes, resources: Record<string, any>, resource: any): void {
+  const properties = resource.Properties || {};
+  const routePath = getRestApiResourcePath(resources, properties.ResourceId);
+  if (routePath === undefined) {
+    return;
+  }
+
+  const security = getCloudFormationAuthorizer(
+    imported.securitySchemes,
+    resources,
+    properties.AuthorizationType,
+    properties.AuthorizerId?.Ref
+  );
+  const functionName = findReferencedResource(resources, properties.Integration?.Uri, FUNCTION_TYPES);
+  addRoutes(imported, functionName, properties.HttpMethod, routePath || '/', security);
+}
+
+function importHttpApiRoute(imported: ImportedRoutes, resources: Record<string, any>, resource: any): void {
+  const properties = resource.Properties || {};
+  if (typeof properties.RouteKey !== 'string' || !properties.RouteKey.includes(' ')) {
+    return;
+  }
+
+  const { method, path } = parseRouteKey(properties.RouteKey);
+  const security = getCloudFormationAuthorizer(
+    imported.securitySchemes,
+    resources,
+    properties.AuthorizationType,
+    properties.AuthorizerId?.Ref
+  );
+
+  // Routes point at an integration resource, which points at the function
+  const integrationId = findReferencedResource(resources, properties.Target, ['AWS::ApiGatewayV2::Integration']);
+  const integration = integrationId ? resources[integrationId].Properties : undefined;
+  const functionName = findReferencedResource(resources, integration?.IntegrationUri, FUNCTION_TYPES);
+
+  addRoutes(imported, functionName, method, path, security);
+}
+
+// Builds the path of an `AWS::ApiGateway::Resource` from its `PathPart`
+// and its parents, up to the API's root resource
+function getRestApiResourcePath(resources: Record<string, any>, resourceId: any): string | undefined {
+  if (resourceId?.['Fn::GetAtt']?.[1] === 'RootResourceId') {
+    return '';
+  }
+
+  const resource = resources[resourceId?.Ref];
+  if (resource?.Type !== 'AWS::ApiGateway::Resource') {
+    return undefined;
+  }
+
+  const parentPath = getRestApiResourcePath(resources, resource.Properties?.ParentId);
+  return parentPath === undefined ? undefined : `${parentPath}/${resource.Properties?.PathPart}`;
+}
+
+function getCloudFormationAuthorizer(
+  securitySchemes: Record<string, SecurityScheme>,
+  resources: Record<string, any>,
+  authorizationType: string | undefined,
+  authorizerId: string | undefined
+): string | undefined {
+  if (authorizationType === 'AWS_IAM') {
+    return addIamScheme(securitySchemes);
+  }
+
+  const authorizer = authorizerId ? resources[authorizerId] : undefined;
+  if (!authorizer) {
+    return undefined;
+  }
+
+  const properties = authorizer.Properties || {};
+  const name: string = typeof properties.Name === 'string' ? properties.Name : authorizerId as string;
+  const type = String(properties.Type || properties.AuthorizerType || '').toUpperCase();
+
+  if (type === 'COGNITO_USER_POOLS' || type === 'JWT') {
+    securitySchemes[name] = jwtScheme();
+  } else {
+    const identitySource = [].concat(properties.IdentitySource || properties.IdentitySources || [])[0];
+    securitySchemes[name] = headerScheme(getIdentityHeader(identitySource));
+  }
+  return name;
+}
+
+// Finds the first resource of the given types referenced from a value,
+// such as the function in an integration URI built with `Fn::Join`
+function findReferencedResource(resources: Record<string, any>, value: unknown, types: string[]): string | undefined {
+  if (Array.isArray(value)) {
+    return value.map(item => findReferencedResource(resources, item, types)).find(Boolean);
+  }
+  if (!value || typeof value !== 'object') {
+    return undefined;
+  }
+
+  const reference = (value as any)['Fn::GetAtt']?.[0] || (value as any).Ref;
+  if (types.includes(resources[reference]?.Type)) {
+    return reference;
+  }
+  return findReferencedResource(resources, Object.values(value), types);
+}
+
+// Adds a route per method; `ANY` and `*` expand to every supported method,
+// while methods such as OPTIONS and HEAD are left out
+function addRoutes(
+  imported: ImportedRoutes,
+  functionName: string | undefined,
+  method: string | undefined,
+  routePath: string | undefined,
+  security: string | undefined
+): void {
+  if (!method || !routePath || routePath === '*') {
+    return;
+  }
+
+  const normalized = String(method).toLowerCase();
+  const methods = normalized === 'any' || normalized === '*'
+    ? ROUTE_METHODS
+    : ROUTE_METHODS.filter(routeMethod => routeMethod === normalized);
+
+  methods.forEach(routeMethod => {
+    const route: ImportedRoute = {
+      path: normalizePath(routePath),
+      method: routeMethod,
+      ...(security && { security: [security] }),
+      responses: [{ statusCode: 200, description: 'Success' }],
+      ...(functionName && { functionName })
+    };
+    imported.routes.push(route);
+  });
+}
+
+// `users/{proxy+}` becomes `/users/{proxy}`
+function normalizePath(routePath: string): string {
+  const withSlash = routePath.startsWith('/') ? routePath : `/${routePath}`;
+  return withSlash.replace(/\{([^}]+)\+\}/g, '{$1}').replace(/(.)\/$/, '$1');
+}
+
+// `GET /users/{userId}`, as used by HTTP API route keys
+function parseRouteKey(routeKey: string): { method: string; path: string } {
+  const [method, path] = routeKey.trim().split(/\s+/);
+  return { method, path };
+}
+
+function getAuthorizerName(reference: string): string {
+  // `arn:aws:lambda:...:function:authorize` is named after the function
+  return reference.split(':').pop()?.split('/').pop() || reference;
+}
+
+// `method.request.header.Authorization` or `$request.header.Authorization`
+function getIdentityHeader(identitySource: unknown): string {
+  const match = typeof identitySource === 'string' ? identitySource.match(/header\.([\w-]+)/i) : null;
+  return match ? match[1] : 'Authorization';
+}
+
+function jwtScheme(): SecurityScheme {
+  return { type: 'http', scheme: 'bearer', bearerFormat: 'JWT' };
+}
+
+function headerScheme(header: string): SecurityScheme {
+  return { type: 'apiKey', in: 'header', name: header };
+}
+
+function addIamScheme(securitySchemes: Record<string, SecurityScheme>): string {
+  securitySchemes[IAM_SECURITY_SCHEME] = {
+    type: 'apiKey',
+    in: 'header',
+    name: 'Authorization',
+    description: 'AWS Signature Version 4'
+  };
+  return IAM_SECURITY_SCHEME;
+}
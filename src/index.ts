@@ -1,26 +1,210 @@
-import { Project } from 'ts-morph';
-import { OpenAPIObject, PathItemObject, OperationObject, SchemaObject, SchemaObjectType, ParameterObject, SecuritySchemeObject, ServerObject, ResponseObject } from 'openapi3-ts';
-import { RouteDefinition, SecurityScheme, ServerConfiguration, ResponseDefinition, PathParameterDefinition, QueryParameter, HeaderDefinition, ServerVariable, GeneratorConfig } from './types';
+import { ClassDeclaration, EnumDeclaration, Expression, Signature, InterfaceDeclaration, Node, Project, SourceFile, Symbol as TsMorphSymbol, SyntaxKind, Type, TypeAliasDeclaration, ts } from 'ts-morph';
+import { OpenAPIObject, PathItemObject, OperationObject, SchemaObject, SchemaObjectType, ReferenceObject, DiscriminatorObject, isReferenceObject, ParameterObject, ParameterLocation, SecuritySchemeObject, ServerObject, ResponseObject, ContentObject, TagObject } from 'openapi3-ts';
+import { RouteDefinition, WebhookDefinition, ImportedRoute, ApiGatewayConfig, EncodingDefinition, TagDefinition, ExternalDocsDefinition, SecurityScheme, ServerConfiguration, ResponseDefinition, PathParameterDefinition, QueryParameter, HeaderDefinition, ServerVariable, GeneratorConfig, GeneratorDiagnostic, OpenAPIVersion, ExampleConfig, SpecFormat, SpecOutputOptions, SpecWatcher, WatchOptions, MockServer, MockServerOptions } from './types';
+import { serializeSpec, writeSpecFiles } from './output';
+import { REQUEST_VALIDATORS, buildAuthorizerExtensions, buildCorsOperation, buildIntegration } from './gateway';
+import { ClientOperation, ClientParameters, ClientType, renderClient } from './client';
+import { generateExample } from './examples';
+import { startMockServer } from './mock';
+import * as fs from 'fs';
 import * as path from 'path';
 import { glob } from 'glob';
 
+// JSDoc tags copied onto schemas, grouped by how their value is parsed
+const NUMERIC_JSDOC_TAGS = ['minimum', 'maximum', 'exclusiveMinimum', 'exclusiveMaximum', 'multipleOf', 'minLength', 'maxLength', 'minItems', 'maxItems'];
+const STRING_JSDOC_TAGS = ['pattern', 'format'];
+const VALUE_JSDOC_TAGS = ['example', 'default'];
+
+// Types that hold raw bytes, such as uploaded files
+const BINARY_TYPES = ['Buffer', 'Blob', 'File', 'ArrayBuffer', 'Uint8Array'];
+
+const ROUTE_METHODS: Array<RouteDefinition['method']> = ['get', 'post', 'put', 'delete', 'patch'];
+
+// Properties of a typed handler event and the route fields inferred from them
+const EVENT_TYPE_PROPERTIES = {
+  body: 'requestType',
+  pathParameters: 'pathParamsType',
+  queryStringParameters: 'queryType',
+  headers: 'headersType'
+} as const;
+
+// Media types whose body is a set of named fields that `encoding` applies to
+const FORM_MEDIA_TYPES = ['multipart/form-data', 'application/x-www-form-urlencoded'];
+
+type TypeDeclaration = TypeAliasDeclaration | InterfaceDeclaration | ClassDeclaration | EnumDeclaration;
+
+const isTypeDeclaration = (node: Node): node is TypeDeclaration =>
+  Node.isTypeAliasDeclaration(node)
+  || Node.isInterfaceDeclaration(node)
+  || Node.isClassDeclaration(node)
+  || Node.isEnumDeclaration(node);
+
+// JSON Schema 2020-12 keywords used by OpenAPI 3.1 that openapi3-ts does
+// not describe
+type JsonSchemaObject = SchemaObject & {
+  const?: unknown;
+  contentMediaType?: string;
+  prefixItems?: Array<SchemaObject | ReferenceObject>;
+};
+
+type PropertySchema = {
+  name: string;
+  schema: SchemaObject | ReferenceObject;
+  required: boolean;
+};
+
+type FoundTypeDeclaration = {
+  name: string;
+  declaration: TypeDeclaration;
+  sourceFile: SourceFile;
+};
+
+type HandlerDeclaration = {
+  // Node the handler's JSDoc is attached to
+  node: Node;
+  // Node whose type is the handler function
+  declaration: Node;
+};
+
+type ResolvedTypeReference = {
+  name: string;
+  // Identity used to share one component between references; unset for
+  // types that are inlined rather than registered (arrays, primitives)
+  key?: string;
+  type: Type;
+  declaration?: Node;
+  // Location the type's properties are resolved at
+  node: Node;
+};
+
+// Type names, optionally qualified by module, within a type reference such
+// as `Paginated<billing/models#Invoice>`
+const TYPE_TOKEN_PATTERN = /(?:[\w./-]+#)?[A-Za-z_$][\w$]*/g;
+
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const PRIMITIVE_TYPE_NAMES = ['string', 'number', 'boolean'];
+
+// Dependencies and dot directories such as .git are not watched
+const IGNORED_WATCH_DIRECTORIES = /^(node_modules|\..+)$/;
+
+// The element type of an array reference written as `Pet[]` or
+// `Array<Pet>`. Unions such as `Array<A> | B` are not arrays.
+const getArrayElementName = (typeName: string): string | undefined => {
+  const trimmed = typeName.trim();
+  const element = trimmed.endsWith('[]')
+    ? trimmed.slice(0, -2)
+    : trimmed.match(/^Array<(.+)>$/)?.[1];
+  if (!element || /[|&]/.test(element)) {
+    return undefined;
+  }
+
+  let depth = 0;
+  for (const char of element) {
+    if (char === '<') depth++;
+    if (char === '>' && --depth < 0) return undefined;
+  }
+  return depth === 0 ? element.trim() : undefined;
+};
+
 // Re-export types
 export type {
   RouteDefinition,
+  WebhookDefinition,
+  ImportedRoute,
+  ImportedRoutes,
   SecurityScheme,
+  ApiGatewayAuthorizer,
+  ApiGatewayIntegration,
+  ApiGatewayConfig,
+  RequestValidator,
+  CorsConfiguration,
   ServerConfiguration,
   ResponseDefinition,
+  EncodingDefinition,
+  TagDefinition,
+  ExternalDocsDefinition,
   PathParameterDefinition,
   QueryParameter,
   HeaderDefinition,
   ServerVariable,
-  GeneratorConfig
+  GeneratorConfig,
+  OpenAPIVersion,
+  GeneratorDiagnostic,
+  DiagnosticCode,
+  CliConfig,
+  SpecFormat,
+  SpecOutputOptions,
+  ProxyEvent,
+  ProxyResult,
+  ValidationError,
+  ValidationResult,
+  ValidatorOptions,
+  SpecChange,
+  SpecChangeCode,
+  ChangeReportFormat,
+  MergeConflict,
+  MergeConflictCode,
+  MergeConfig,
+  MergeServiceConfig,
+  ExampleConfig,
+  MockServer,
+  MockServerOptions,
+  MockRequest,
+  WatchOptions,
+  SpecWatcher
 } from './types';
 
+export { importRoutes, importServerlessRoutes, importCloudFormationRoutes } from './importers';
+export { createValidator, toBadRequest } from './validation';
+export type { Validator } from './validation';
+export { diffSpecs, formatChanges } from './diff';
+export { generateExample } from './examples';
+export type { ExampleOptions } from './examples';
+export { startMockServer } from './mock';
+export { readSpecFiles } from './output';
+export { mergeSpecs } from './merge';
+export type { MergeSource, MergeOptions, MergeResult } from './merge';
+
 export class OpenAPIGenerator {
   private spec: OpenAPIObject;
   private project!: Project;
   private typeChecker: any;
+  private rootDir!: string;
+  private sourceFiles: SourceFile[] = [];
+  private componentKeys = new Map<string, string>();
+  private componentNamesByKey = new Map<string, string>();
+  private genericReferences = new Map<string, TypeAliasDeclaration>();
+  private strict = false;
+  private openapiVersion: OpenAPIVersion = '3.0';
+  private apiGateway?: ApiGatewayConfig;
+  private examples?: ExampleConfig;
+  private diagnostics: GeneratorDiagnostic[] = [];
+  // Route that first used each operationId
+  private operationIds = new Map<string, string>();
+  private clientOperations = new Map<string, ClientOperation>();
+  private currentRoute?: string;
+  private includePatterns: string[] = [];
+  private skipDeclarationFiles = false;
+  private excludePatterns: string[] = [];
+  // Routes and webhooks are replayed when the spec is regenerated
+  private routes: RouteDefinition[] = [];
+  private webhooks = new Map<string, WebhookDefinition>();
+  private discoveredRoutes = new WeakSet<RouteDefinition>();
+  // Files each component schema was built from, so that a change only
+  // rebuilds the components depending on it
+  private componentDependencies = new Map<string, Set<string>>();
+  private dependencyStack: Array<Set<string>> = [];
+  private regeneration?: { used: Set<string> };
+  // Files changed in a regeneration that failed. The spec keeps the
+  // components built from them until a later regeneration succeeds.
+  private staleFiles = new Set<string>();
+  // Components whose schema is built and current. Names are claimed per
+  // type key, so each type is only walked once however often it is used.
+  private builtSchemas = new Set<string>();
+  // Type declarations by name, in source file order. Built on the first
+  // lookup and dropped whenever source files change.
+  private typeIndex?: Map<string, FoundTypeDeclaration[]>;
 
   private constructor() {
     // Initialize empty spec
@@ -49,37 +233,40 @@ export class OpenAPIGenerator {
     // Set API info
     if (config.title) this.spec.info.title = config.title;
     if (config.version) this.spec.info.version = config.version;
+    this.strict = config.strict || false;
+    this.openapiVersion = config.openapiVersion || '3.0';
+    this.spec.openapi = this.isOpenAPI31() ? '3.1.0' : '3.0.0';
+    this.apiGateway = config.apiGateway;
+    this.examples = config.examples === true ? {} : config.examples || undefined;
+    if (this.apiGateway?.requestValidator) {
+      this.spec['x-amazon-apigateway-request-validators'] = REQUEST_VALIDATORS;
+      this.spec['x-amazon-apigateway-request-validator'] = this.apiGateway.requestValidator;
+    }
 
-    // Initialize ts-morph project
+    // Initialize ts-morph project. Declaration files the sources depend on
+    // are then only read by the type checker when a type needs them.
+    const { rootDir, include, exclude = [], tsConfigFilePath = 'tsconfig.json', skipDeclarationFiles = false } = config.project;
+    this.skipDeclarationFiles = skipDeclarationFiles;
     this.project = new Project({
-      tsConfigFilePath: 'tsconfig.json',
+      tsConfigFilePath: path.resolve(process.cwd(), tsConfigFilePath),
+      skipFileDependencyResolution: skipDeclarationFiles
     });
 
     // Add source files based on project configuration
-    const { rootDir, include, exclude = [] } = config.project;
     const absoluteRootDir = path.resolve(process.cwd(), rootDir);
+    this.rootDir = absoluteRootDir;
 
-    // Convert include patterns to absolute paths
-    const includePatterns = include.map(pattern => 
-      path.join(absoluteRootDir, pattern)
-    );
-
-    // Convert exclude patterns to absolute paths
-    const excludePatterns = exclude.map(pattern => 
-      path.join(absoluteRootDir, pattern)
-    );
+    // Convert include and exclude patterns to absolute paths
+    this.includePatterns = include.map(pattern => path.join(absoluteRootDir, pattern));
+    this.excludePatterns = exclude.map(pattern => path.join(absoluteRootDir, pattern));
 
     // Find all matching files
-    const sourceFiles = await Promise.all(
-      includePatterns.map(pattern => 
-        glob(pattern, { ignore: excludePatterns })
-      )
-    ).then(results => results.flat());
+    const sourceFiles = await this.findSourceFiles();
 
     // Add unique files to the project
-    [...new Set(sourceFiles)].forEach(file => {
+    sourceFiles.forEach(file => {
       try {
-        this.project.addSourceFileAtPath(file);
+        this.sourceFiles.push(this.project.addSourceFileAtPath(file));
       } catch (error: any) {
         console.warn(`Warning: Could not add source file ${file}: ${error.message}`);
       }
@@ -89,6 +276,14 @@ export class OpenAPIGenerator {
     this.typeChecker = program.getTypeChecker();
   }
 
+  private async findSourceFiles(): Promise<string[]> {
+    const results = await Promise.all(
+      this.includePatterns.map(pattern => glob(pattern, { ignore: this.excludePatterns }))
+    );
+    const files = [...new Set(results.flat())];
+    return this.skipDeclarationFiles ? files.filter(file => !file.endsWith('.d.ts')) : files;
+  }
+
   addSecurityScheme(name: string, scheme: SecurityScheme): this {
     if (!this.spec.components) {
       this.spec.components = {
@@ -99,7 +294,11 @@ export class OpenAPIGenerator {
     if (!this.spec.components.securitySchemes) {
       this.spec.components.securitySchemes = {};
     }
-    this.spec.components.securitySchemes[name] = scheme as SecuritySchemeObject;
+    const { authorizer, ...securityScheme } = scheme;
+    this.spec.components.securitySchemes[name] = {
+      ...securityScheme,
+      ...(authorizer && buildAuthorizerExtensions(authorizer))
+    } as SecuritySchemeObject;
     return this;
   }
 
@@ -111,41 +310,305 @@ export class OpenAPIGenerator {
     return this;
   }
 
+  addTag(tag: TagDefinition): this {
+    if (!this.spec.tags) {
+      this.spec.tags = [];
+    }
+    const index = this.spec.tags.findIndex(existing => existing.name === tag.name);
+    if (index === -1) {
+      this.spec.tags.push(tag as TagObject);
+    } else {
+      this.spec.tags[index] = tag as TagObject;
+    }
+    return this;
+  }
+
+  // Records a problem found while generating the spec. In strict mode the
+  // first problem is thrown instead of being silently worked around.
+  private report(diagnostic: Omit<GeneratorDiagnostic, 'route'>): void {
+    const recorded: GeneratorDiagnostic = {
+      ...(this.currentRoute && { route: this.currentRoute }),
+      ...diagnostic
+    };
+    // Diagnostics of files that did not change are kept when regenerating
+    if (this.regeneration && this.diagnostics.some(existing => JSON.stringify(existing) === JSON.stringify(recorded))) {
+      return;
+    }
+    this.diagnostics.push(recorded);
+
+    if (this.strict) {
+      const location = recorded.file ? ` (${recorded.file}:${recorded.line})` : '';
+      const route = recorded.route ? `${recorded.route}: ` : '';
+      throw new Error(`${route}${recorded.message}${location}`);
+    }
+  }
+
+  getDiagnostics(): GeneratorDiagnostic[] {
+    return [...this.diagnostics];
+  }
+
+  private validateRoute(route: RouteDefinition): void {
+    const pathParams = this.extractPathParameters(route.path);
+
+    Object.keys(route.parameters || {})
+      .filter(name => !pathParams.includes(name))
+      .forEach(name => this.report({
+        code: 'unknown-path-parameter',
+        message: `Parameter '${name}' is not part of the path template '${route.path}'`
+      }));
+
+    this.validateSecurity(route.security);
+
+    if ((this.spec.paths[route.path] as PathItemObject | undefined)?.[route.method]) {
+      this.report({
+        code: 'duplicate-route',
+        message: `Route is already defined and will be overwritten`
+      });
+    }
+
+    if ((route.requestType || route.requestContentTypes) && (route.method === 'get' || route.method === 'delete')) {
+      const body = route.requestType ? `Request type '${route.requestType}'` : 'A request body';
+      this.report({
+        code: 'request-body-not-allowed',
+        message: `${body} is not allowed on ${route.method.toUpperCase()} routes`
+      });
+    }
+  }
+
+  private validateSecurity(security: string[] = []): void {
+    const securitySchemes = this.spec.components?.securitySchemes || {};
+    security
+      .filter(name => !securitySchemes[name])
+      .forEach(name => this.report({
+        code: 'unknown-security-scheme',
+        message: `Security scheme '${name}' has not been registered with addSecurityScheme`
+      }));
+  }
+
+  private isOpenAPI31(): boolean {
+    return this.openapiVersion === '3.1';
+  }
+
   private extractPathParameters(path: string): string[] {
     const matches = path.match(/{([^}]+)}/g);
     return matches ? matches.map(match => match.slice(1, -1)) : [];
   }
 
   addRoute(route: RouteDefinition): this {
+    this.currentRoute = `${route.method.toUpperCase()} ${route.path}`;
+    try {
+      this.validateRoute(route);
+      this.buildRoute(route);
+      this.routes.push(route);
+    } finally {
+      this.currentRoute = undefined;
+    }
+    return this;
+  }
+
+  private buildRoute(route: RouteDefinition): void {
     // Create path if it doesn't exist
     if (!this.spec.paths[route.path]) {
       this.spec.paths[route.path] = {};
     }
 
     const pathItem = this.spec.paths[route.path] as PathItemObject;
-    const operation: OperationObject = {
-      description: route.description || '',
-      responses: {}
-    };
 
     // Handle path parameters
     const pathParams = this.extractPathParameters(route.path);
     const parameters: ParameterObject[] = [];
+    const typedPathParams = route.pathParamsType ? this.extractTypeParameters(route.pathParamsType, 'path') : [];
+
+    typedPathParams
+      .filter(param => !pathParams.includes(param.name))
+      .forEach(param => this.report({
+        code: 'unknown-path-parameter',
+        message: `Parameter '${param.name}' from '${route.pathParamsType}' is not part of the path template '${route.path}'`
+      }));
 
     if (pathParams.length > 0) {
       pathParams.forEach(paramName => {
+        const typedParam = typedPathParams.find(param => param.name === paramName);
         parameters.push({
           name: paramName,
           in: 'path',
           required: true,
-          schema: {
+          schema: typedParam?.schema || {
             type: 'string'
           } as SchemaObject,
-          description: route.parameters?.[paramName]?.description || `${paramName} parameter`
+          description: route.parameters?.[paramName]?.description || typedParam?.description || `${paramName} parameter`
         });
       });
     }
 
+    const operationId = this.getOperationId(route.method, this.extractPathSegments(route.path));
+    const operation = this.buildOperation(route, parameters, operationId);
+    this.addApiGatewayExtensions(route, operation);
+    pathItem[route.method] = operation;
+    this.clientOperations.set(this.currentRoute as string, this.getClientOperation(route, operation));
+
+    if (this.apiGateway?.cors) {
+      const methods = ROUTE_METHODS.filter(method => pathItem[method]);
+      pathItem.options = buildCorsOperation(this.apiGateway.cors, methods);
+    }
+  }
+
+  // Lets API Gateway import the spec directly: the route's integration
+  // settings are merged over the configured defaults
+  private addApiGatewayExtensions(route: ImportedRoute, operation: OperationObject): void {
+    const integration = this.apiGateway?.integration || route.integration
+      ? { ...this.apiGateway?.integration, ...route.integration }
+      : undefined;
+    if (integration) {
+      const successResponse = route.responses.find(response => response.statusCode < 300) || route.responses[0];
+      operation['x-amazon-apigateway-integration'] = buildIntegration(integration, {
+        functionName: integration.functionName || route.functionName,
+        operationId: operation.operationId as string,
+        statusCode: successResponse?.statusCode || 200
+      });
+    }
+
+    if (route.requestValidator) {
+      this.spec['x-amazon-apigateway-request-validators'] = REQUEST_VALIDATORS;
+      operation['x-amazon-apigateway-request-validator'] = route.requestValidator;
+    }
+  }
+
+  // Records what the client needs to call an operation. Parameters derived
+  // from a type are typed by importing it; the rest are typed from their schema.
+  private getClientOperation(route: RouteDefinition, operation: OperationObject): ClientOperation {
+    const parameters = (operation.parameters || []) as ParameterObject[];
+    const typeNames = { path: route.pathParamsType, query: route.queryType, header: route.headersType };
+    const getParameters = (location: keyof typeof typeNames): ClientParameters => {
+      const typeName = typeNames[location];
+      const typedNames = typeName ? this.extractTypeParameters(typeName, location).map(param => param.name) : [];
+      const inLocation = parameters.filter(param => param.in === location);
+      return {
+        ...(typeName && { type: this.getClientType(typeName) }),
+        extra: inLocation.filter(param => !typedNames.includes(param.name)),
+        required: inLocation.some(param => param.required)
+      };
+    };
+    const getKind = (typeName: string | undefined, contentTypes: string[] | undefined) => {
+      if (!contentTypes) return typeName ? 'json' : 'none';
+      if (contentTypes.some(contentType => contentType.includes('json'))) return 'json';
+      return contentTypes.some(contentType => contentType.startsWith('text/')) ? 'text' : 'binary';
+    };
+
+    return {
+      operationId: operation.operationId as string,
+      method: route.method,
+      path: route.path,
+      ...((route.summary || route.description) && { description: route.summary || route.description }),
+      ...(route.deprecated && { deprecated: true }),
+      parameters: {
+        path: getParameters('path'),
+        query: getParameters('query'),
+        header: getParameters('header')
+      },
+      ...((route.requestType || route.requestContentTypes) && {
+        body: {
+          ...(route.requestType && { type: this.getClientType(route.requestType) }),
+          json: getKind(route.requestType, route.requestContentTypes) === 'json'
+        }
+      }),
+      responses: route.responses.map(response => ({
+        statusCode: response.statusCode,
+        ...(response.type && { type: this.getClientType(response.type) }),
+        kind: getKind(response.type, response.contentTypes)
+      }))
+    };
+  }
+
+  // The client refers to types by their declared names, imported from the
+  // file each one was found in
+  private getClientType(typeName: string): ClientType {
+    const tokens = [...new Set(typeName.match(TYPE_TOKEN_PATTERN) || [])];
+    const imports = tokens.flatMap(token => {
+      try {
+        const found = this.findTypeDeclaration(token);
+        return [{ name: found.name, file: found.sourceFile.getFilePath() as string }];
+      } catch (error) {
+        // Built-in types such as `string` or `Array` need no import
+        return [];
+      }
+    });
+    return { text: typeName.replace(/[\w./-]+#/g, ''), imports };
+  }
+
+  // Webhooks describe requests the API sends to its consumers, so they have
+  // no path template and are only available in OpenAPI 3.1
+  addWebhook(name: string, webhook: WebhookDefinition): this {
+    if (!this.isOpenAPI31()) {
+      throw new Error(`Webhook '${name}' requires OpenAPI 3.1, set openapiVersion to '3.1'`);
+    }
+
+    this.currentRoute = `${webhook.method.toUpperCase()} webhook ${name}`;
+    try {
+      this.validateSecurity(webhook.security);
+      if (!this.spec.webhooks) {
+        this.spec.webhooks = {};
+      }
+      if (!this.spec.webhooks[name]) {
+        this.spec.webhooks[name] = {};
+      }
+      const pathItem = this.spec.webhooks[name] as PathItemObject;
+      pathItem[webhook.method] = this.buildOperation(webhook, [], this.getOperationId(webhook.method, [name]));
+      this.webhooks.set(name, webhook);
+    } finally {
+      this.currentRoute = undefined;
+    }
+    return this;
+  }
+
+  // Names an operation after its method and path, so `GET /users/{userId}`
+  // becomes `getUsersByUserId`
+  private getOperationId(method: string, segments: string[]): string {
+    const toPascalCase = (value: string) => value
+      .split(/[^A-Za-z0-9]+/)
+      .filter(Boolean)
+      .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+      .join('');
+
+    return method + segments
+      .map(segment => segment.startsWith('{') ? `By${toPascalCase(segment.slice(1, -1))}` : toPascalCase(segment))
+      .join('');
+  }
+
+  private extractPathSegments(path: string): string[] {
+    return path.split('/').filter(Boolean);
+  }
+
+  private buildOperation(route: WebhookDefinition, parameters: ParameterObject[], defaultOperationId: string): OperationObject {
+    const operationId = route.operationId || defaultOperationId;
+    const owner = this.operationIds.get(operationId);
+    if (owner && owner !== this.currentRoute) {
+      this.report({
+        code: 'duplicate-operation-id',
+        message: `Operation ID '${operationId}' is already used by ${owner}`
+      });
+    } else {
+      this.operationIds.set(operationId, this.currentRoute as string);
+    }
+
+    const operation: OperationObject = {
+      ...(route.tags && { tags: route.tags }),
+      ...(route.summary && { summary: route.summary }),
+      description: route.description || '',
+      operationId,
+      ...(route.externalDocs && { externalDocs: route.externalDocs }),
+      ...(route.deprecated && { deprecated: true }),
+      responses: {}
+    };
+
+    // Handle query parameters derived from a type; explicit
+    // queryParameters take precedence for the same name
+    if (route.queryType) {
+      this.extractTypeParameters(route.queryType, 'query')
+        .filter(param => !route.queryParameters?.[param.name])
+        .forEach(param => parameters.push(param));
+    }
+
     // Handle query parameters
     if (route.queryParameters) {
       Object.entries(route.queryParameters).forEach(([name, param]) => {
@@ -159,6 +622,15 @@ export class OpenAPIGenerator {
       });
     }
 
+    // Handle request headers derived from a type; header names are
+    // case-insensitive, so explicit headers override regardless of case
+    if (route.headersType) {
+      const explicitHeaders = (route.headers?.request || []).map(header => header.name.toLowerCase());
+      this.extractTypeParameters(route.headersType, 'header')
+        .filter(param => !explicitHeaders.includes(param.name.toLowerCase()))
+        .forEach(param => parameters.push(param));
+    }
+
     // Handle request headers
     if (route.headers?.request) {
       route.headers.request.forEach(header => {
@@ -181,27 +653,26 @@ export class OpenAPIGenerator {
       operation.security = route.security.map(scheme => ({ [scheme]: [] }));
     }
 
-    // Add request body if request type is specified
-    if (route.requestType) {
+    // Add request body if a request type or media type is specified. A
+    // body typed by the route has to be sent.
+    const requestContent = this.buildContent(route.requestType, route.requestContentTypes, route.requestEncoding, 'request');
+    if (requestContent) {
       operation.requestBody = {
-        content: {
-          'application/json': {
-            schema: this.extractTypeSchema(route.requestType)
-          }
-        }
+        content: requestContent,
+        ...(route.requestType && { required: true })
       };
     }
 
-    // Handle responses and response headers
+    // Handle responses and response headers; responses without a type or
+    // media type, such as a 204, have no content
     route.responses.forEach(response => {
       const responseObj: ResponseObject = {
-        description: response.description,
-        content: {
-          'application/json': {
-            schema: response.type ? this.extractTypeSchema(response.type) : {}
-          }
-        }
+        description: response.description
       };
+      const content = this.buildContent(response.type, response.contentTypes, response.encoding, 'response');
+      if (content) {
+        responseObj.content = content;
+      }
 
       // Add response headers if specified
       if (route.headers?.response) {
@@ -219,8 +690,53 @@ export class OpenAPIGenerator {
       operation.responses[response.statusCode.toString()] = responseObj;
     });
 
-    pathItem[route.method] = operation;
-    return this;
+    return operation;
+  }
+
+  // Describes a body under each of its media types, JSON unless given.
+  // Without a type, the schema follows from the media type where possible.
+  private buildContent(
+    typeName: string | undefined,
+    contentTypes: string[] | undefined,
+    encoding: Record<string, EncodingDefinition> | undefined,
+    direction: 'request' | 'response'
+  ): ContentObject | undefined {
+    const mediaTypes = contentTypes || (typeName ? ['application/json'] : []);
+    if (mediaTypes.length === 0) {
+      return undefined;
+    }
+
+    const schema = typeName ? this.extractTypeSchema(typeName) : undefined;
+    const content: ContentObject = {};
+    mediaTypes.forEach(mediaType => {
+      const mediaSchema = schema || this.getMediaTypeSchema(mediaType);
+      const example = this.examples && mediaSchema
+        ? generateExample(mediaSchema, this.spec, { seed: this.examples.seed, direction })
+        : undefined;
+      content[mediaType] = {
+        ...(mediaSchema && { schema: mediaSchema }),
+        ...(example !== undefined && { example }),
+        ...(encoding && FORM_MEDIA_TYPES.includes(mediaType) && { encoding })
+      };
+    });
+    return content;
+  }
+
+  private getMediaTypeSchema(mediaType: string): SchemaObject | undefined {
+    if (mediaType.startsWith('text/')) {
+      return { type: 'string' };
+    }
+    if (mediaType === 'application/octet-stream' || /^(image|audio|video)\//.test(mediaType)) {
+      return this.binarySchema();
+    }
+    return undefined;
+  }
+
+  // OpenAPI 3.1 describes raw bytes by their media type, 3.0 by a format
+  private binarySchema(): JsonSchemaObject {
+    return this.isOpenAPI31()
+      ? { type: 'string', contentMediaType: 'application/octet-stream' }
+      : { type: 'string', format: 'binary' };
   }
 
   addRoutes(routes: RouteDefinition[]): void {
@@ -233,129 +749,1372 @@ export class OpenAPIGenerator {
     }
   }
 
-  private extractTypeSchema(typeName: string): SchemaObject {
-    // Search for the type in all source files
-    const sourceFiles = this.project.getSourceFiles();
-    let typeAlias = null;
-    
-    for (const sourceFile of sourceFiles) {
-      try {
-        typeAlias = sourceFile.getTypeAlias(typeName);
-        if (typeAlias) break;
-      } catch (error) {
-        continue;
+  // Finds routes declared next to their handlers in the included files,
+  // either with a `@route` JSDoc tag on an exported handler or with an
+  // exported `openapi` constant. Types the tags and the constant leave out
+  // are inferred from the handler's event and return types.
+  discoverRoutes(): RouteDefinition[] {
+    const routes: RouteDefinition[] = [];
+    const sourceFiles = [...this.sourceFiles].sort((a, b) => a.getFilePath().localeCompare(b.getFilePath()));
+
+    sourceFiles.forEach(sourceFile => {
+      const handlers = this.getExportedHandlers(sourceFile);
+
+      handlers.forEach(handler => {
+        const route = this.getAnnotatedRoute(handler);
+        if (route) {
+          routes.push(route);
+        }
+      });
+
+      const metadata = sourceFile.getVariableDeclaration('openapi');
+      if (metadata?.isExported()) {
+        const handler = handlers.find(({ declaration }) => Node.hasName(declaration) && declaration.getName() === 'handler')
+          || (handlers.length === 1 ? handlers[0] : undefined);
+        const route = this.getRouteMetadata(metadata.getInitializer(), handler);
+        if (route) {
+          routes.push(route);
+        }
       }
+    });
+
+    routes.forEach(route => this.discoveredRoutes.add(route));
+    return routes;
+  }
+
+  private getExportedHandlers(sourceFile: SourceFile): HandlerDeclaration[] {
+    const functions = sourceFile.getFunctions()
+      .filter(fn => fn.isExported() && fn.getName())
+      .map(fn => ({ node: fn as Node, declaration: fn as Node }));
+
+    const variables = sourceFile.getVariableStatements()
+      .filter(statement => statement.isExported())
+      .flatMap(statement => statement.getDeclarations()
+        .filter(declaration => declaration.getName() !== 'openapi' && declaration.getType().getCallSignatures().length > 0)
+        .map(declaration => ({ node: statement as Node, declaration: declaration as Node })));
+
+    return [...functions, ...variables].sort((a, b) => a.node.getStart() - b.node.getStart());
+  }
+
+  // Reads `@route GET /users/{userId}` and the tags next to it, such as
+  // `@response 200 User User found` or `@tags users`
+  private getAnnotatedRoute(handler: HandlerDeclaration): RouteDefinition | undefined {
+    const jsDocs = Node.isJSDocable(handler.node) ? handler.node.getJsDocs() : [];
+    const tags = jsDocs.flatMap(jsDoc => jsDoc.getTags());
+    const routeTag = tags.find(tag => tag.getTagName() === 'route');
+    if (!routeTag) {
+      return undefined;
     }
-    
-    if (!typeAlias) {
-      throw new Error(`Type '${typeName}' not found in any source files`);
+
+    const [method = '', routePath = ''] = (routeTag.getCommentText() || '').trim().split(/\s+/);
+    const routeMethod = method.toLowerCase() as RouteDefinition['method'];
+    if (!ROUTE_METHODS.includes(routeMethod) || !routePath.startsWith('/')) {
+      this.report({
+        code: 'invalid-route-annotation',
+        message: `Expected '@route <METHOD> /path', found '@route ${routeTag.getCommentText() || ''}'`,
+        ...this.getSourceLocation(routeTag)
+      });
+      return undefined;
     }
 
-    const tsType = typeAlias.getType();
-    
-    // Register the schema in components
-    const schema = this.getSchemaForType(tsType);
-    if (this.spec.components?.schemas) {
-      this.spec.components.schemas[typeName] = schema;
+    const description = jsDocs.map(jsDoc => jsDoc.getCommentText()?.trim()).filter(Boolean).join('\n');
+    const route: RouteDefinition = {
+      path: routePath,
+      method: routeMethod,
+      ...(description && { description }),
+      ...this.inferRequestTypes(handler.declaration),
+      responses: []
+    };
+
+    tags.forEach(tag => {
+      const text = tag.getCommentText()?.trim() || '';
+      switch (tag.getTagName()) {
+        case 'summary':
+          route.summary = text;
+          break;
+        case 'operationId':
+          route.operationId = text;
+          break;
+        case 'tags':
+          route.tags = text.split(/[\s,]+/).filter(Boolean);
+          break;
+        case 'security':
+          route.security = [...(route.security || []), text];
+          break;
+        case 'deprecated':
+          route.deprecated = true;
+          break;
+        case 'request':
+          route.requestType = text;
+          break;
+        case 'response': {
+          const response = this.parseResponseTag(text);
+          if (response) {
+            route.responses.push(response);
+          } else {
+            this.report({
+              code: 'invalid-route-annotation',
+              message: `Expected '@response <status> [Type] [description]' with a 3-digit status, found '@response ${text}'`,
+              ...this.getSourceLocation(tag)
+            });
+          }
+          break;
+        }
+      }
+    });
+
+    if (route.responses.length === 0) {
+      route.responses = this.inferResponses(handler.declaration);
     }
-    
-    if (tsType.isArray()) {
-      const elementType = tsType.getArrayElementType();
-      return {
-        type: 'array',
-        items: this.getSchemaForType(elementType)
-      };
+    return route;
+  }
+
+  // `@response <status> [Type] [description]`, with `-` standing in for a
+  // response without a body. A plain word is only a type if a declaration
+  // has that name, so `@response 404 Not found` is all description.
+  private parseResponseTag(text: string): ResponseDefinition | undefined {
+    const [status, typeName, ...words] = text.split(/\s+/);
+    if (!/^[1-5]\d\d$/.test(status)) {
+      return undefined;
     }
 
-    return schema;
+    const statusCode = Number(status);
+    const isType = !!typeName && (typeName === '-' || this.isTypeReference(typeName));
+    const description = (isType ? words : [typeName, ...words]).filter(Boolean).join(' ');
+
+    return {
+      statusCode,
+      description: description || this.getDefaultResponseDescription(statusCode),
+      ...(isType && typeName !== '-' && { type: typeName })
+    };
   }
 
-  private getSchemaForType(type: any): SchemaObject {
-    const properties: Record<string, SchemaObject> = {};
-    
-    if (type.isArray()) {
-      const elementType = type.getArrayElementType();
-      return {
-        type: 'array',
-        items: this.getSchemaForType(elementType)
-      };
+  private isTypeReference(text: string): boolean {
+    if (/[#<[]/.test(text)) {
+      return true;
     }
-
-    if (type.isEnum()) {
-      return {
-        type: 'string',
-        enum: type.getUnionTypes().map((t: any) => t.getLiteralValue())
-      };
+    try {
+      this.findTypeDeclaration(text);
+      return true;
+    } catch (error) {
+      return false;
     }
+  }
 
-    if (type.isObject()) {
-      type.getProperties().forEach((prop: any) => {
-        const propType = prop.getTypeAtLocation(prop.getValueDeclaration());
-        let propSchema: SchemaObject;
-
-        if (propType.isEnum()) {
-          propSchema = {
-            type: 'string',
-            enum: propType.getUnionTypes().map((t: any) => t.getLiteralValue())
-          };
-        } else {
-          propSchema = {
-            type: this.getTypeString(propType)
-          };
-        }
-        
-        properties[prop.getName()] = propSchema;
+  private getRouteMetadata(initializer: Expression | undefined, handler: HandlerDeclaration | undefined): RouteDefinition | undefined {
+    let metadata: any;
+    try {
+      metadata = initializer && this.getStaticValue(initializer);
+    } catch (error: any) {
+      this.report({
+        code: 'invalid-route-annotation',
+        message: `The 'openapi' constant must be a literal object: ${error.message}`,
+        ...this.getSourceLocation(initializer as Node)
       });
+      return undefined;
+    }
 
-      return {
-        type: 'object',
-        properties
-      };
+    if (!metadata || !ROUTE_METHODS.includes(metadata.method) || typeof metadata.path !== 'string') {
+      if (initializer) {
+        this.report({
+          code: 'invalid-route-annotation',
+          message: `The 'openapi' constant must define a 'path' and one of the methods ${ROUTE_METHODS.join(', ')}`,
+          ...this.getSourceLocation(initializer)
+        });
+      }
+      return undefined;
     }
 
     return {
-      type: this.getTypeString(type)
+      ...(handler && this.inferRequestTypes(handler.declaration)),
+      ...metadata,
+      responses: metadata.responses || (handler ? this.inferResponses(handler.declaration) : [])
     };
   }
 
-  private getTypeString(type: any): SchemaObjectType {
-    if (type.isNumberLiteral() || type.isNumber()) return 'number';
-    if (type.isStringLiteral() || type.isString()) return 'string';
-    if (type.isBooleanLiteral() || type.isBoolean()) return 'boolean';
-    if (type.isArray()) return 'array';
-    if (type.isObject()) return 'object';
-    if (type.isNull() || type.isUndefined()) return 'null';
-    return 'string'; // Default fallback
+  // Evaluates literal expressions such as the `openapi` constant without
+  // running the module
+  private getStaticValue(node: Node): unknown {
+    if (Node.isAsExpression(node) || Node.isParenthesizedExpression(node) || Node.isSatisfiesExpression(node)) {
+      return this.getStaticValue(node.getExpression());
+    }
+    if (Node.isObjectLiteralExpression(node)) {
+      return Object.fromEntries(node.getProperties().map(property => {
+        if (!Node.isPropertyAssignment(property)) {
+          throw new Error(`'${property.getText()}' is not a property assignment`);
+        }
+        const name = property.getName().replace(/^['"]|['"]$/g, '');
+        return [name, this.getStaticValue(property.getInitializerOrThrow())];
+      }));
+    }
+    if (Node.isArrayLiteralExpression(node)) {
+      return node.getElements().map(element => this.getStaticValue(element));
+    }
+    if (Node.isStringLiteral(node) || Node.isNoSubstitutionTemplateLiteral(node) || Node.isNumericLiteral(node)) {
+      return node.getLiteralValue();
+    }
+    if (Node.isTrueLiteral(node) || Node.isFalseLiteral(node)) {
+      return node.getLiteralValue();
+    }
+    throw new Error(`'${node.getText()}' is not a literal value`);
   }
 
-  private mapTypeToSchemaType(typeString: string): SchemaObjectType {
-    switch (typeString.toLowerCase()) {
-      case 'string':
-        return 'string';
-      case 'number':
-        return 'number';
-      case 'boolean':
-        return 'boolean';
-      case 'object':
-        return 'object';
-      case 'array':
-        return 'array';
-      case 'null':
-      case 'undefined':
-        return 'null';
-      default:
-        return 'string'; // Default fallback
+  private getHandlerSignature(declaration: Node): Signature | undefined {
+    return declaration.getType().getCallSignatures()[0];
+  }
+
+  // Typed events such as `{ body: CreateUserRequest; pathParameters:
+  // UserPathParams }` provide the request types
+  private inferRequestTypes(declaration: Node): Partial<RouteDefinition> {
+    const event = this.getHandlerSignature(declaration)?.getParameters()[0];
+    if (!event) {
+      return {};
     }
+
+    const eventType = event.getTypeAtLocation(declaration);
+    const inferred: Partial<RouteDefinition> = {};
+    Object.entries(EVENT_TYPE_PROPERTIES).forEach(([property, field]) => {
+      const propertyType = eventType.getProperty(property)?.getTypeAtLocation(declaration);
+      const typeName = propertyType && this.getTypeReference(propertyType.getNonNullableType());
+      if (typeName) {
+        inferred[field] = typeName;
+      }
+    });
+    return inferred;
   }
 
-  generateSpec(): OpenAPIObject {
-    return this.spec;
+  // A handler returning `{ statusCode: 201; body: User }` responds with a
+  // 201 and a User; unions of such results describe several responses
+  private inferResponses(declaration: Node): ResponseDefinition[] {
+    let returnType = this.getHandlerSignature(declaration)?.getReturnType();
+    if (returnType?.getSymbol()?.getName() === 'Promise') {
+      returnType = returnType.getTypeArguments()[0];
+    }
+    if (!returnType || returnType.isAny() || returnType.isUnknown()) {
+      return [{ statusCode: 200, description: this.getDefaultResponseDescription(200) }];
+    }
+    if (returnType.getFlags() & ts.TypeFlags.Void || returnType.isUndefined()) {
+      return [{ statusCode: 204, description: this.getDefaultResponseDescription(204) }];
+    }
+
+    const results = returnType.isUnion() && !returnType.isBoolean() ? returnType.getUnionTypes() : [returnType];
+    const isProxyResult = results.every(result => result.getProperty('statusCode') && result.getProperty('body'));
+    if (!isProxyResult) {
+      const type = this.getTypeReference(returnType);
+      return [{ statusCode: 200, description: this.getDefaultResponseDescription(200), ...(type && { type }) }];
+    }
+
+    return results.map(result => {
+      const statusCodeType = result.getProperty('statusCode')!.getTypeAtLocation(declaration);
+      const bodyType = result.getProperty('body')!.getTypeAtLocation(declaration);
+      const statusCode = statusCodeType.isNumberLiteral() ? statusCodeType.getLiteralValue() as number : 200;
+      const type = this.getTypeReference(bodyType);
+      return { statusCode, description: this.getDefaultResponseDescription(statusCode), ...(type && { type }) };
+    });
+  }
+
+  private getDefaultResponseDescription(statusCode: number): string {
+    return statusCode < 400 ? 'Success' : 'Error';
+  }
+
+  // Writes a type as a reference that extractTypeSchema resolves, such as
+  // `handlers/types#User` or `models#Paginated<models#User>`. Types that
+  // cannot be named, such as object literals, have no reference.
+  private getTypeReference(type: Type): string | undefined {
+    if (this.isArrayType(type)) {
+      const element = this.getTypeReference(type.getArrayElementTypeOrThrow());
+      return element && `Array<${element}>`;
+    }
+
+    const symbol = this.getNamedTypeSymbol(type);
+    const declaration = symbol?.getDeclarations()[0];
+    if (!symbol || !declaration || declaration.getSourceFile().isInNodeModules()) {
+      return undefined;
+    }
+
+    const modulePath = path.relative(this.rootDir, declaration.getSourceFile().getFilePath())
+      .replace(/(\.d)?\.tsx?$/, '')
+      .split(path.sep)
+      .join('/');
+    const name = modulePath.startsWith('..') ? symbol.getName() : `${modulePath}#${symbol.getName()}`;
+
+    const typeArguments = this.getGenericTypeArguments(type).map(argument =>
+      argument.isString() || argument.isNumber() || argument.isBoolean()
+        ? argument.getText()
+        : this.getTypeReference(argument)
+    );
+    if (typeArguments.some(argument => !argument)) {
+      return undefined;
+    }
+    return typeArguments.length > 0 ? `${name}<${typeArguments.join(', ')}>` : name;
+  }
+
+  private extractTypeSchema(typeName: string): SchemaObject | ReferenceObject {
+    // Arrays of named types are written inline rather than registered as
+    // a component of their own
+    const elementName = getArrayElementName(typeName);
+    if (elementName) {
+      return { type: 'array', items: this.extractTypeSchema(elementName) };
+    }
+    if (PRIMITIVE_TYPE_NAMES.includes(typeName)) {
+      return { type: typeName as SchemaObjectType };
+    }
+
+    const reference = typeName.includes('<')
+      ? this.resolveGenericReference(typeName)
+      : this.resolveNamedReference(typeName);
+    const { name, key, type: tsType, declaration } = reference;
+    const componentName = key ? this.claimComponentName(name, key) : name;
+    this.regeneration?.used.add(componentName);
+    if (key && this.builtSchemas.has(componentName) && !this.isArrayType(tsType)) {
+      return this.schemaRef(componentName);
+    }
+    
+    // Register the schema in components. Named types found while walking
+    // the type are registered alongside it and linked with $ref.
+    const schema = this.collectDependencies(componentName, [declaration], () =>
+      this.buildSchemaForType(tsType, reference.node, new Set([componentName]))
+    );
+    this.registerSchema(componentName, this.withKeywords(schema, this.getJsDocKeywords(declaration)));
+    
+    if (this.isArrayType(tsType)) {
+      return schema;
+    }
+
+    return this.schemaRef(componentName);
+  }
+
+  private resolveNamedReference(typeName: string): ResolvedTypeReference {
+    const { name, declaration } = this.findTypeDeclaration(typeName);
+    const type = declaration.getType();
+    const key = this.getNamedTypeSymbol(type) ? this.getTypeKey(type) : undefined;
+    return { name, key, type, declaration, node: declaration };
+  }
+
+  // Instantiated generics such as `Paginated<User>` cannot be looked up by
+  // name, so they are written to an in-memory source file that imports each
+  // referenced type and left to the type checker to resolve.
+  private resolveGenericReference(typeName: string): ResolvedTypeReference {
+    let alias = this.genericReferences.get(typeName);
+
+    if (!alias) {
+      const referenceFile = this.project.createSourceFile(
+        path.join(this.rootDir, `__openapi_reference_${this.genericReferences.size}__.ts`),
+        '',
+        { overwrite: true }
+      );
+
+      const tokens = [...new Set(typeName.match(TYPE_TOKEN_PATTERN) || [])];
+      let typeText = typeName;
+      tokens.forEach((token, index) => {
+        let found: FoundTypeDeclaration;
+        try {
+          found = this.findTypeDeclaration(token);
+        } catch (error) {
+          // Left for the type checker, e.g. `string` or `Record`
+          return;
+        }
+
+        const localName = `__T${index}`;
+        referenceFile.addImportDeclaration({
+          moduleSpecifier: referenceFile.getRelativePathAsModuleSpecifierTo(found.sourceFile),
+          namedImports: [{ name: found.name, alias: localName }]
+        });
+        typeText = typeText.replace(new RegExp(`(?<![\\w$#/.-])${escapeRegExp(token)}(?![\\w$])`, 'g'), localName);
+      });
+
+      alias = referenceFile.addTypeAlias({ name: '__Reference', type: typeText });
+
+      const diagnostics = referenceFile.getPreEmitDiagnostics();
+      if (diagnostics.length > 0) {
+        const message = ts.flattenDiagnosticMessageText(diagnostics[0].compilerObject.messageText, ' ');
+        this.project.removeSourceFile(referenceFile);
+        throw new Error(`Type '${typeName}' could not be resolved: ${message}`);
+      }
+
+      this.genericReferences.set(typeName, alias);
+    }
+
+    const typeNode = alias.getTypeNodeOrThrow();
+    const type = alias.getType();
+    const name = typeName
+      .replace(/[\w./-]+#/g, '')
+      .replace(/\[\]/g, 'Array')
+      .replace(/[<,]/g, '_')
+      .replace(/[^\w]/g, '');
+
+    // Key the component like a nested reference to the same instantiation
+    // would be, so both share one component name
+    let declaration: Node | undefined;
+    let key: string | undefined;
+    if (Node.isTypeReference(typeNode)) {
+      let symbol = typeNode.getTypeName().getSymbol();
+      if (symbol?.isAlias()) symbol = symbol.getAliasedSymbol();
+      declaration = symbol?.getDeclarations()[0];
+      if (declaration && !this.isArrayType(type)) {
+        key = this.getDeclarationKey(declaration, typeNode.getTypeArguments().map(argument => argument.getType()));
+      }
+    }
+
+    return { name, key, type, declaration, node: alias };
+  }
+
+  // Resolves a type reference such as `User` or `billing/models#Invoice`.
+  // Exported declarations are looked up through re-exports, so types that
+  // are only exposed from a barrel file are found as well.
+  private findTypeDeclaration(typeName: string): FoundTypeDeclaration {
+    const [modulePath, name] = typeName.includes('#') ? typeName.split('#') : [undefined, typeName];
+    const found = (this.getTypeIndex().get(name) || []).find(candidate =>
+      !modulePath || this.matchesModulePath(candidate.sourceFile.getFilePath(), modulePath)
+    );
+    if (found) {
+      return found;
+    }
+
+    if (modulePath) {
+      throw new Error(`Type '${name}' not found in module '${modulePath}'`);
+    }
+    throw new Error(`Type '${typeName}' not found in any source files`);
+  }
+
+  // Each file contributes one declaration per name: its own declaration
+  // first, then whatever it re-exports under that name
+  private getTypeIndex(): Map<string, FoundTypeDeclaration[]> {
+    if (this.typeIndex) {
+      return this.typeIndex;
+    }
+
+    const index = new Map<string, FoundTypeDeclaration[]>();
+    this.project.getSourceFiles().forEach(sourceFile => {
+      if (this.skipDeclarationFiles && sourceFile.isDeclarationFile()) {
+        return;
+      }
+      const declarations = new Map<string, TypeDeclaration>();
+      const add = (name: string, declaration: TypeDeclaration | undefined) => {
+        if (name && declaration && !declarations.has(name)) declarations.set(name, declaration);
+      };
+
+      [
+        ...sourceFile.getTypeAliases(),
+        ...sourceFile.getInterfaces(),
+        ...sourceFile.getClasses(),
+        ...sourceFile.getEnums()
+      ].forEach(declaration => add(declaration.getName() || '', declaration));
+      try {
+        sourceFile.getExportedDeclarations().forEach((exported, name) => add(name, exported.find(isTypeDeclaration)));
+      } catch (error) {
+        // Unresolvable re-exports only hide that file's exports
+      }
+
+      declarations.forEach((declaration, name) => {
+        const entries = index.get(name) || [];
+        entries.push({ name, declaration, sourceFile });
+        index.set(name, entries);
+      });
+    });
+
+    this.typeIndex = index;
+    return index;
+  }
+
+  private matchesModulePath(filePath: string, modulePath: string): boolean {
+    const withoutExtension = filePath.replace(/(\.d)?\.tsx?$/, '');
+    const normalized = modulePath.replace(/^\.?\//, '').replace(/\/$/, '');
+    return withoutExtension.endsWith(`/${normalized}`) || withoutExtension.endsWith(`/${normalized}/index`);
+  }
+
+  // Gives every type a stable component name. Same-named types from
+  // different modules are numbered instead of overwriting each other.
+  private claimComponentName(name: string, key: string): string {
+    const claimed = this.componentNamesByKey.get(key);
+    if (claimed) {
+      return claimed;
+    }
+
+    let componentName = name;
+    for (let index = 2; this.componentKeys.has(componentName); index++) {
+      componentName = `${name}${index}`;
+    }
+
+    this.componentKeys.set(componentName, key);
+    this.componentNamesByKey.set(key, componentName);
+    return componentName;
+  }
+
+  // Identifies a type by where it is declared plus its type arguments.
+  // Unlike type objects, this survives the program being rebuilt when
+  // generic references are added.
+  private getTypeKey(type: Type): string {
+    const declaration = (type.getAliasSymbol() || type.getSymbol())?.getDeclarations()[0];
+    if (!declaration) {
+      return type.getText();
+    }
+    return this.getDeclarationKey(declaration, this.getGenericTypeArguments(type));
+  }
+
+  private getDeclarationKey(declaration: Node, typeArguments: Type[]): string {
+    const location = `${declaration.getSourceFile().getFilePath()}:${declaration.getPos()}`;
+    if (typeArguments.length === 0) {
+      return location;
+    }
+    return `${location}<${typeArguments.map(argument => this.getTypeKey(argument)).join(',')}>`;
+  }
+
+  private getGenericTypeArguments(type: Type): Type[] {
+    if (type.getAliasSymbol()) {
+      return type.getAliasTypeArguments();
+    }
+    return type.isObject() ? type.getTypeArguments() : [];
+  }
+
+  // Records the files a component is built from: its declarations and the
+  // declarations of the properties inlined into it
+  private collectDependencies<T>(componentName: string, declarations: Array<Node | undefined>, build: () => T): T {
+    const dependencies = new Set<string>();
+    this.dependencyStack.push(dependencies);
+    declarations.forEach(declaration => this.addDependency(declaration));
+    try {
+      return build();
+    } finally {
+      this.dependencyStack.pop();
+      this.componentDependencies.set(componentName, dependencies);
+    }
+  }
+
+  private addDependency(node: Node | undefined): void {
+    if (node && this.dependencyStack.length > 0) {
+      this.dependencyStack[this.dependencyStack.length - 1].add(node.getSourceFile().getFilePath());
+    }
+  }
+
+  private registerSchema(name: string, schema: SchemaObject | ReferenceObject): void {
+    if (!this.spec.components) {
+      this.spec.components = {};
+    }
+    if (!this.spec.components.schemas) {
+      this.spec.components.schemas = {};
+    }
+    this.spec.components.schemas[name] = schema;
+    this.builtSchemas.add(name);
+  }
+
+  private schemaRef(name: string): ReferenceObject {
+    return { $ref: `#/components/schemas/${name}` };
+  }
+
+  // Returns the symbol of types that should be emitted once under
+  // components.schemas (enums, interfaces, classes and aliased types).
+  private getNamedTypeSymbol(type: Type): TsMorphSymbol | undefined {
+    if (this.isArrayType(type)) return undefined;
+
+    // Unions and intersections only have a name when they are aliased
+    if (!type.isEnum() && (type.isUnion() || type.isIntersection())) {
+      return type.getAliasSymbol();
+    }
+    if (!type.isEnum() && !type.isObject()) return undefined;
+
+    const symbol = type.getAliasSymbol() || type.getSymbol();
+    // Anonymous object literals are reported as `__type` / `__object`
+    if (!symbol || symbol.getName().startsWith('__')) return undefined;
+    // Standard library types such as Record or Partial are inlined
+    if (this.isDeclaredInDefaultLibrary(symbol.getDeclarations()[0]) || this.isBinaryType(type)) return undefined;
+    return symbol;
+  }
+
+  // Generic instantiations are named after their type arguments, so
+  // `Paginated<User>` becomes `Paginated_User`
+  private getComponentName(type: Type): string | undefined {
+    const symbol = this.getNamedTypeSymbol(type);
+    if (!symbol) return undefined;
+
+    const typeArguments = this.getGenericTypeArguments(type);
+    const name = [symbol.getName(), ...typeArguments.map(argument => this.getTypeArgumentName(argument))].join('_');
+    return this.claimComponentName(name, this.getTypeKey(type));
+  }
+
+  private getTypeArgumentName(type: Type): string {
+    if (this.isArrayType(type)) {
+      const elementType = type.getArrayElementType() || type.getTypeArguments()[0];
+      return `${this.getTypeArgumentName(elementType)}Array`;
+    }
+    return this.getComponentName(type) || type.getText().replace(/[^\w]/g, '');
+  }
+
+  private getSchemaForType(type: Type, node: Node, seen: Set<string>): SchemaObject | ReferenceObject {
+    const componentName = this.getComponentName(type);
+    if (!componentName) {
+      return this.buildSchemaForType(type, node, seen);
+    }
+
+    // Only build each named type once per extraction; this also stops
+    // self-referencing and mutually recursive types from looping.
+    if (!seen.has(componentName) && !this.builtSchemas.has(componentName)) {
+      seen.add(componentName);
+      const declarations = (type.getAliasSymbol() || type.getSymbol())?.getDeclarations() || [];
+      const schema = this.collectDependencies(componentName, declarations, () => this.buildSchemaForType(type, node, seen));
+      const declaration = declarations[0];
+      this.registerSchema(componentName, this.withKeywords(schema, this.getJsDocKeywords(declaration)));
+    }
+    return this.schemaRef(componentName);
+  }
+
+  private buildSchemaForType(type: Type, node: Node, seen: Set<string>): SchemaObject | ReferenceObject {
+    const asType = this.getAsType(type.getAliasSymbol()?.getDeclarations()[0]);
+    if (asType) {
+      return { type: asType };
+    }
+
+    if (type.isAny() || type.isUnknown()) {
+      return {};
+    }
+
+    if (this.isArrayType(type)) {
+      const elementType = type.getArrayElementType() || type.getTypeArguments()[0];
+      return {
+        type: 'array',
+        items: this.getSchemaForType(elementType, node, seen)
+      };
+    }
+
+    if (type.isTuple()) {
+      const elements = type.getTupleElements().map(t => this.getSchemaForType(t, node, seen));
+      if (this.isOpenAPI31()) {
+        const schema: JsonSchemaObject = {
+          type: 'array',
+          prefixItems: elements,
+          minItems: elements.length,
+          maxItems: elements.length
+        };
+        return schema;
+      }
+
+      const distinct = elements.filter((element, index) =>
+        elements.findIndex(other => JSON.stringify(other) === JSON.stringify(element)) === index
+      );
+      return {
+        type: 'array',
+        items: distinct.length === 1 ? distinct[0] : { oneOf: distinct },
+        minItems: elements.length,
+        maxItems: elements.length
+      };
+    }
+
+    if (type.isEnum()) {
+      // Grouped by value type, so numeric and mixed enums keep their values
+      return this.buildUnionSchema(type.getUnionTypes(), node, seen);
+    }
+
+    if (type.isUnion() && type.isNullable()) {
+      // `T | undefined` only affects whether a property is required, while
+      // `T | null` is kept as a nullable schema
+      const schema = this.getSchemaForType(type.getNonNullableType(), node, seen);
+      const isNull = type.getUnionTypes().some(t => t.isNull());
+      return isNull ? this.withNull(schema) : schema;
+    }
+
+    if (type.isBoolean()) {
+      return { type: 'boolean' };
+    }
+
+    if (type.isUnion()) {
+      return this.buildUnionSchema(type.getUnionTypes(), node, seen);
+    }
+
+    if (type.isIntersection()) {
+      // Branded primitives such as `string & { __brand: 'Email' }` are plain
+      // primitives at runtime
+      const primitive = type.getIntersectionTypes().find(t => !t.isObject());
+      if (primitive) {
+        return this.getSchemaForType(primitive, node, seen);
+      }
+
+      return {
+        allOf: type.getIntersectionTypes().map(t => this.getSchemaForType(t, node, seen))
+      };
+    }
+
+    if (type.isLiteral() || type.isBooleanLiteral()) {
+      return this.literalSchema(this.getTypeString(type), [this.getLiteralValue(type)]);
+    }
+
+    if (type.getFlags() & ts.TypeFlags.BigIntLike) {
+      return { type: 'integer', format: 'int64' };
+    }
+
+    if (type.isTemplateLiteral()) {
+      return { type: 'string' };
+    }
+
+    if (this.isBinaryType(type)) {
+      return this.binarySchema();
+    }
+
+    if (this.isBuiltInType(type, 'Date')) {
+      return { type: 'string', format: 'date-time' };
+    }
+
+    // Maps and sets are described by the plain object and array they are
+    // usually serialized to
+    if (this.isBuiltInType(type, 'Map') || this.isBuiltInType(type, 'ReadonlyMap')) {
+      return {
+        type: 'object',
+        additionalProperties: this.getSchemaForType(type.getTypeArguments()[1], node, seen)
+      };
+    }
+
+    if (this.isBuiltInType(type, 'Set') || this.isBuiltInType(type, 'ReadonlySet')) {
+      return {
+        type: 'array',
+        items: this.getSchemaForType(type.getTypeArguments()[0], node, seen),
+        uniqueItems: true
+      };
+    }
+
+    if (type.isObject()) {
+      const properties: Record<string, SchemaObject | ReferenceObject> = {};
+      const required: string[] = [];
+
+      this.getPropertySchemas(type, node, seen).forEach(property => {
+        properties[property.name] = property.schema;
+        if (property.required) {
+          required.push(property.name);
+        }
+      });
+
+      // Index signatures and `Record<string, T>` describe the remaining keys
+      const indexType = type.getStringIndexType() || type.getNumberIndexType();
+      const additionalProperties = indexType ? this.getSchemaForType(indexType, node, seen) : undefined;
+
+      return {
+        type: 'object',
+        ...((Object.keys(properties).length > 0 || !additionalProperties) && { properties }),
+        ...(required.length > 0 && { required }),
+        ...(additionalProperties && { additionalProperties })
+      };
+    }
+
+    const typeString = this.getTypeString(type);
+    if (typeString === 'string' && !type.isString()) {
+      this.report({
+        code: 'unsupported-type',
+        message: `Type '${type.getText(node)}' is not supported and was emitted as 'string'`,
+        ...this.getSourceLocation(node)
+      });
+    }
+
+    return {
+      type: typeString
+    };
+  }
+
+  private getSourceLocation(node: Node): { file: string; line: number } {
+    return {
+      file: path.relative(process.cwd(), node.getSourceFile().getFilePath()),
+      line: node.getStartLineNumber()
+    };
+  }
+
+  private getPropertySchemas(type: Type, node: Node, seen: Set<string>): PropertySchema[] {
+    const propertySchemas: PropertySchema[] = [];
+
+    type.getProperties().forEach(prop => {
+      const declaration = prop.getValueDeclaration();
+      const propType = prop.getTypeAtLocation(declaration || node);
+      this.addDependency(declaration);
+
+      // Methods and non-public class members are not part of the payload
+      if (propType.getCallSignatures().length > 0) return;
+      if (Node.isModifierable(declaration)
+        && (declaration.hasModifier(SyntaxKind.PrivateKeyword) || declaration.hasModifier(SyntaxKind.ProtectedKeyword))) {
+        return;
+      }
+      const isReadonly = Node.isReadonlyable(declaration) && declaration.isReadonly();
+      const asType = this.getAsType(declaration) || this.getAsType(this.getReferencedAliasDeclaration(declaration));
+      const schema = asType ? { type: asType } : this.getSchemaForType(propType, declaration || node, seen);
+
+      const acceptsUndefined = propType.isUndefined()
+        || (propType.isUnion() && propType.getUnionTypes().some(t => t.isUndefined()));
+
+      propertySchemas.push({
+        name: prop.getName(),
+        schema: this.withKeywords(schema, {
+          ...(isReadonly && { readOnly: true }),
+          ...this.getJsDocKeywords(declaration)
+        }),
+        required: !prop.isOptional() && !acceptsUndefined
+      });
+    });
+
+    return propertySchemas;
+  }
+
+  // Turns each property of a type such as `UserQuery` into a parameter.
+  // The JSDoc description and deprecation move from the schema onto the
+  // parameter itself.
+  private extractTypeParameters(typeName: string, location: ParameterLocation): ParameterObject[] {
+    const { type, node } = typeName.includes('<')
+      ? this.resolveGenericReference(typeName)
+      : this.resolveNamedReference(typeName);
+
+    return this.getPropertySchemas(type, node, new Set()).map(property => {
+      const { description, deprecated, ...keywords } = property.schema as SchemaObject;
+      const isWrappedRef = keywords.allOf?.length === 1 && Object.keys(keywords).length === 1;
+
+      return {
+        name: property.name,
+        in: location,
+        required: location === 'path' || property.required,
+        schema: isWrappedRef ? keywords.allOf![0] : keywords,
+        ...(description && { description }),
+        ...(deprecated && { deprecated })
+      };
+    });
+  }
+
+  // Keywords next to a $ref are ignored in OpenAPI 3.0, so references are
+  // wrapped in a single-member allOf before anything is added to them.
+  // OpenAPI 3.1 follows JSON Schema 2020-12, where they may sit side by side.
+  private withKeywords(schema: SchemaObject | ReferenceObject, keywords: SchemaObject): SchemaObject | ReferenceObject {
+    if (Object.keys(keywords).length === 0) {
+      return schema;
+    }
+    if (isReferenceObject(schema) && !this.isOpenAPI31()) {
+      return { allOf: [schema], ...keywords };
+    }
+    return { ...schema, ...keywords };
+  }
+
+  // OpenAPI 3.1 has no `nullable`; null is either added to the type list or,
+  // for references and combined schemas, offered as an alternative
+  private withNull(schema: SchemaObject | ReferenceObject): SchemaObject | ReferenceObject {
+    if (!this.isOpenAPI31()) {
+      return this.withKeywords(schema, { nullable: true });
+    }
+    if (isReferenceObject(schema) || typeof schema.type !== 'string') {
+      return { oneOf: [schema, { type: 'null' }] };
+    }
+
+    const { const: constValue, ...rest } = schema as JsonSchemaObject;
+    const values = constValue !== undefined ? [constValue] : schema.enum;
+    return {
+      ...rest,
+      type: [schema.type, 'null'],
+      ...(values && { enum: [...values, null] })
+    };
+  }
+
+  // A single literal is a `const` in OpenAPI 3.1 and a one-value enum in 3.0
+  private literalSchema(typeString: SchemaObjectType, values: Array<string | number | boolean>): JsonSchemaObject {
+    if (values.length === 1 && this.isOpenAPI31()) {
+      return { type: typeString, const: values[0] };
+    }
+    return { type: typeString, enum: values };
+  }
+
+  // Reads the description and supported tags such as `@minimum 1` or
+  // `@deprecated` from the JSDoc attached to a declaration
+  private getJsDocKeywords(declaration: Node | undefined): SchemaObject {
+    if (!Node.isJSDocable(declaration)) {
+      return {};
+    }
+
+    const keywords: Record<string, unknown> = {};
+    declaration.getJsDocs().forEach(jsDoc => {
+      const description = jsDoc.getCommentText()?.trim();
+      if (description) {
+        keywords.description = description;
+      }
+
+      jsDoc.getTags().forEach(tag => {
+        const tagName = tag.getTagName();
+        const text = tag.getCommentText()?.trim() || '';
+
+        if (NUMERIC_JSDOC_TAGS.includes(tagName) && text !== '' && !isNaN(Number(text))) {
+          keywords[tagName] = Number(text);
+        } else if (STRING_JSDOC_TAGS.includes(tagName) && text) {
+          keywords[tagName] = text;
+        } else if (tagName === 'example' && text && this.isOpenAPI31()) {
+          // JSON Schema 2020-12 only knows `examples`, which takes every tag
+          keywords.examples = [...(keywords.examples as unknown[] || []), this.parseJsDocValue(text)];
+        } else if (VALUE_JSDOC_TAGS.includes(tagName) && text) {
+          keywords[tagName] = this.parseJsDocValue(text);
+        } else if (tagName === 'deprecated') {
+          keywords.deprecated = true;
+        }
+      });
+    });
+
+    // OpenAPI 3.0 only knows exclusive bounds as boolean modifiers of
+    // `minimum` and `maximum`
+    if (!this.isOpenAPI31()) {
+      ([['exclusiveMinimum', 'minimum'], ['exclusiveMaximum', 'maximum']] as const).forEach(([exclusive, bound]) => {
+        if (typeof keywords[exclusive] === 'number') {
+          keywords[bound] = keywords[exclusive];
+          keywords[exclusive] = true;
+        }
+      });
+    }
+
+    return keywords as SchemaObject;
+  }
+
+  // `@asType integer` overrides the schema type, typically for numbers or
+  // branded types that only carry integers
+  private getAsType(declaration: Node | undefined): SchemaObjectType | undefined {
+    if (!Node.isJSDocable(declaration)) {
+      return undefined;
+    }
+
+    const tag = declaration.getJsDocs()
+      .flatMap(jsDoc => jsDoc.getTags())
+      .find(jsDocTag => jsDocTag.getTagName() === 'asType');
+    return tag?.getCommentText()?.trim() as SchemaObjectType | undefined;
+  }
+
+  // Aliases of primitives such as `type Integer = number` are erased by the
+  // type checker, so they are followed from the property's type annotation
+  private getReferencedAliasDeclaration(declaration: Node | undefined): Node | undefined {
+    if (!Node.isPropertySignature(declaration) && !Node.isPropertyDeclaration(declaration)) {
+      return undefined;
+    }
+
+    const typeNode = declaration.getTypeNode();
+    if (!Node.isTypeReference(typeNode)) {
+      return undefined;
+    }
+
+    let symbol = typeNode.getTypeName().getSymbol();
+    if (symbol?.isAlias()) symbol = symbol.getAliasedSymbol();
+    return symbol?.getDeclarations()[0];
+  }
+
+  // Types such as Date, Map and Set are detected by name, but only when they
+  // come from the TypeScript standard library
+  private isBuiltInType(type: Type, name: string): boolean {
+    const symbol = type.getSymbol();
+    return symbol?.getName() === name && this.isDeclaredInDefaultLibrary(symbol.getDeclarations()[0]);
+  }
+
+  // Binary types come from the default library or, like `Buffer`, from
+  // installed type packages
+  private isBinaryType(type: Type): boolean {
+    const symbol = type.getSymbol();
+    const declaration = symbol?.getDeclarations()[0];
+    return !!symbol && BINARY_TYPES.includes(symbol.getName())
+      && !!declaration && (this.isDeclaredInDefaultLibrary(declaration) || declaration.getSourceFile().isInNodeModules());
+  }
+
+  private isDeclaredInDefaultLibrary(declaration: Node | undefined): boolean {
+    return !!declaration && this.project.getProgram().compilerObject.isSourceFileDefaultLibrary(declaration.getSourceFile().compilerNode);
+  }
+
+  // `@example` and `@default` values are JSON when possible, text otherwise
+  private parseJsDocValue(text: string): unknown {
+    try {
+      return JSON.parse(text);
+    } catch {
+      return text;
+    }
+  }
+
+  private isArrayType(type: Type): boolean {
+    return type.isArray() || type.isReadonlyArray();
+  }
+
+  private buildUnionSchema(members: Type[], node: Node, seen: Set<string>): SchemaObject | ReferenceObject {
+    const literals = members.filter(t => t.isLiteral() || t.isBooleanLiteral());
+    const others = members.filter(t => !literals.includes(t));
+
+    // Literal members collapse into one enum per primitive type
+    const literalGroups = new Map<SchemaObjectType, Array<string | number | boolean>>();
+    literals.forEach(literal => {
+      const typeString = this.getTypeString(literal);
+      const values = literalGroups.get(typeString) || [];
+      values.push(this.getLiteralValue(literal));
+      literalGroups.set(typeString, values);
+    });
+
+    const schemas: Array<SchemaObject | ReferenceObject> = [];
+    literalGroups.forEach((values, typeString) => {
+      // `boolean` inside a union is expanded to `true | false`
+      if (typeString === 'boolean' && values.length === 2) {
+        schemas.push({ type: 'boolean' });
+      } else {
+        schemas.push(this.literalSchema(typeString, values));
+      }
+    });
+    others.forEach(member => schemas.push(this.getSchemaForType(member, node, seen)));
+
+    if (schemas.length === 1) {
+      return schemas[0];
+    }
+
+    const discriminator = literals.length === 0 ? this.getDiscriminator(others, node) : undefined;
+    if (discriminator) {
+      return { oneOf: schemas, discriminator };
+    }
+
+    // Object members may overlap, so a payload can legitimately match several
+    const hasObjectMembers = others.some(t => t.isObject() || t.isIntersection());
+    return hasObjectMembers ? { anyOf: schemas } : { oneOf: schemas };
+  }
+
+  // A union is discriminated when every member is a named object type and
+  // they share a property whose string literal value differs per member.
+  private getDiscriminator(members: Type[], node: Node): DiscriminatorObject | undefined {
+    const names = members.map(member => this.getComponentName(member));
+    if (names.some(name => !name) || members.some(member => !member.isObject())) {
+      return undefined;
+    }
+
+    for (const prop of members[0].getProperties()) {
+      const propertyName = prop.getName();
+      const values = members.map(member => {
+        const propType = member.getProperty(propertyName)?.getTypeAtLocation(node);
+        return propType?.isStringLiteral() ? propType.getLiteralValue() as string : undefined;
+      });
+
+      if (values.every(value => value !== undefined) && new Set(values).size === values.length) {
+        const mapping: Record<string, string> = {};
+        values.forEach((value, index) => {
+          mapping[value as string] = this.schemaRef(names[index] as string).$ref;
+        });
+        return { propertyName, mapping };
+      }
+    }
+
+    return undefined;
+  }
+
+  private getLiteralValue(type: Type): string | number | boolean {
+    if (type.isBooleanLiteral()) return type.getText() === 'true';
+    return type.getLiteralValue() as string | number;
+  }
+
+  private getTypeString(type: any): SchemaObjectType {
+    if (type.isNumberLiteral() || type.isNumber()) return 'number';
+    if (type.isStringLiteral() || type.isString()) return 'string';
+    if (type.isBooleanLiteral() || type.isBoolean()) return 'boolean';
+    if (type.getFlags() & ts.TypeFlags.BigIntLike) return 'integer';
+    if (type.isArray()) return 'array';
+    if (type.isObject()) return 'object';
+    if (type.isNull() || type.isUndefined()) return 'null';
+    return 'string'; // Default fallback
+  }
+
+  private mapTypeToSchemaType(typeString: string): SchemaObjectType {
+    switch (typeString.toLowerCase()) {
+      case 'string':
+        return 'string';
+      case 'number':
+        return 'number';
+      case 'boolean':
+        return 'boolean';
+      case 'object':
+        return 'object';
+      case 'array':
+        return 'array';
+      case 'null':
+      case 'undefined':
+        return 'null';
+      default:
+        return 'string'; // Default fallback
+    }
+  }
+
+  // Rebuilds the spec after source files changed on disk. The project is
+  // refreshed in place and the schemas of components that do not depend on
+  // the changed files are kept; routes and webhooks are added again.
+  async regenerate(changedFiles: string[]): Promise<this> {
+    const changed = new Set([...this.staleFiles, ...changedFiles.map(file => path.resolve(file))]);
+    await this.refreshSourceFiles([...changed]);
+
+    // Generic references import the changed files, so they are resolved again
+    this.genericReferences.forEach(alias => this.project.removeSourceFile(alias.getSourceFile()));
+    this.genericReferences.clear();
+
+    // Restored if a route fails, so the spec stays as it was
+    const previous = {
+      paths: this.spec.paths,
+      webhooks: this.spec.webhooks,
+      schemas: { ...this.spec.components?.schemas },
+      componentKeys: new Map(this.componentKeys),
+      componentNamesByKey: new Map(this.componentNamesByKey),
+      componentDependencies: new Map(this.componentDependencies),
+      builtSchemas: new Set(this.builtSchemas),
+      webhookDefinitions: new Map(this.webhooks),
+      operationIds: new Map(this.operationIds),
+      clientOperations: new Map(this.clientOperations),
+      diagnostics: this.diagnostics
+    };
+
+    this.getInvalidComponents(changed).forEach(name => this.removeComponent(name));
+    const changedPaths = [...changed].map(file => path.relative(process.cwd(), file));
+    this.diagnostics = this.diagnostics.filter(diagnostic => diagnostic.file && !changedPaths.includes(diagnostic.file));
+
+    const routes = [...this.routes];
+    const firstDiscovered = routes.findIndex(route => this.discoveredRoutes.has(route));
+    if (firstDiscovered !== -1) {
+      const configured = routes.filter(route => !this.discoveredRoutes.has(route));
+      routes.splice(0, routes.length, ...configured.slice(0, firstDiscovered), ...this.discoverRoutes(), ...configured.slice(firstDiscovered));
+    }
+    const webhooks = [...this.webhooks];
+
+    this.spec.paths = {};
+    delete this.spec.webhooks;
+    this.routes = [];
+    this.webhooks.clear();
+    this.operationIds.clear();
+    this.clientOperations.clear();
+    this.regeneration = { used: new Set() };
+    try {
+      this.addRoutes(routes);
+      webhooks.forEach(([name, webhook]) => this.addWebhook(name, webhook));
+      this.pruneComponents(this.regeneration.used);
+      this.staleFiles.clear();
+    } catch (error) {
+      this.spec.paths = previous.paths;
+      if (previous.webhooks) {
+        this.spec.webhooks = previous.webhooks;
+      } else {
+        delete this.spec.webhooks;
+      }
+      this.spec.components = { ...this.spec.components, schemas: previous.schemas };
+      this.componentKeys = previous.componentKeys;
+      this.componentNamesByKey = previous.componentNamesByKey;
+      this.componentDependencies = previous.componentDependencies;
+      this.builtSchemas = previous.builtSchemas;
+      this.webhooks = previous.webhookDefinitions;
+      this.operationIds = previous.operationIds;
+      this.clientOperations = previous.clientOperations;
+      this.diagnostics = previous.diagnostics;
+      this.staleFiles = changed;
+      throw error;
+    } finally {
+      // Keep every route for the next attempt if one of them failed
+      this.routes = routes;
+      this.regeneration = undefined;
+    }
+    return this;
+  }
+
+  // Watches the project's root directory and regenerates the spec shortly
+  // after files matching the include patterns change. Recursive fs.watch is
+  // not available on Linux before Node 20, so each directory is watched on
+  // its own and directories created later are added as they appear.
+  watch(options: WatchOptions = {}): SpecWatcher {
+    const pending = new Set<string>();
+    const watchers = new Map<string, fs.FSWatcher>();
+    let timer: NodeJS.Timeout | undefined;
+    let running = Promise.resolve();
+
+    const flush = () => {
+      const changedFiles = [...pending];
+      pending.clear();
+      running = running
+        .then(() => this.regenerate(changedFiles))
+        .then(() => options.onRegenerate?.(changedFiles))
+        .catch((error: Error) => options.onError ? options.onError(error) : console.error(error.message));
+    };
+
+    const queue = (file: string) => {
+      if (!/\.tsx?$/.test(file) || /__openapi_reference_\d+__\.ts$/.test(file)) {
+        return;
+      }
+      pending.add(file);
+      clearTimeout(timer);
+      timer = setTimeout(flush, options.debounceMs ?? 50);
+    };
+
+    // Files in a directory created after watching started may be written
+    // before its watcher exists, so they are queued when it is added
+    const watchDirectory = (directory: string, created: boolean) => {
+      if (watchers.has(directory)) {
+        return;
+      }
+      let entries: fs.Dirent[];
+      try {
+        const watcher = fs.watch(directory, (event, fileName) => {
+          if (!fileName) return;
+          const file = path.join(directory, fileName.toString());
+          if (isDirectory(file)) {
+            watchDirectory(file, true);
+          } else {
+            queue(file);
+          }
+        });
+        watcher.on('error', () => {
+          watcher.close();
+          watchers.delete(directory);
+        });
+        watchers.set(directory, watcher);
+        entries = fs.readdirSync(directory, { withFileTypes: true });
+      } catch (error) {
+        // Removed before it could be watched
+        return;
+      }
+
+      entries.forEach(entry => {
+        const entryPath = path.join(directory, entry.name);
+        if (entry.isDirectory() && !IGNORED_WATCH_DIRECTORIES.test(entry.name)) {
+          watchDirectory(entryPath, created);
+        } else if (created && entry.isFile()) {
+          queue(entryPath);
+        }
+      });
+    };
+    const isDirectory = (file: string) => {
+      try {
+        return !IGNORED_WATCH_DIRECTORIES.test(path.basename(file)) && fs.statSync(file).isDirectory();
+      } catch (error) {
+        return false;
+      }
+    };
+
+    watchDirectory(this.rootDir, false);
+
+    return {
+      close: () => {
+        clearTimeout(timer);
+        watchers.forEach(watcher => watcher.close());
+        watchers.clear();
+      }
+    };
+  }
+
+  private async refreshSourceFiles(files: string[]): Promise<void> {
+    this.typeIndex = undefined;
+    const isNew = (file: string) => !this.project.getSourceFile(file) && fs.existsSync(file);
+    const included = files.some(isNew) ? new Set(await this.findSourceFiles()) : new Set<string>();
+
+    files.forEach(file => {
+      const sourceFile = this.project.getSourceFile(file);
+      if (!fs.existsSync(file)) {
+        if (sourceFile) {
+          this.sourceFiles = this.sourceFiles.filter(existing => existing !== sourceFile);
+          this.project.removeSourceFile(sourceFile);
+        }
+      } else if (sourceFile) {
+        sourceFile.refreshFromFileSystemSync();
+      } else if (included.has(file)) {
+        this.sourceFiles.push(this.project.addSourceFileAtPath(file));
+      }
+    });
+  }
+
+  // Components built from a changed file, or whose key points into one, are
+  // rebuilt, and so is every component referencing them: a component that is
+  // kept does not walk into the types it references.
+  private getInvalidComponents(changed: Set<string>): Set<string> {
+    const schemas = this.spec.components?.schemas || {};
+    const invalid = new Set(Object.keys(schemas).filter(name => {
+      const dependencies = [...(this.componentDependencies.get(name) || [])];
+      const key = this.componentKeys.get(name) || '';
+      return dependencies.length === 0
+        || dependencies.some(file => changed.has(file))
+        || [...changed].some(file => key.includes(`${file}:`));
+    }));
+
+    let growing = true;
+    while (growing) {
+      growing = false;
+      Object.entries(schemas).forEach(([name, schema]) => {
+        if (!invalid.has(name) && this.getSchemaRefNames(schema).some(ref => invalid.has(ref))) {
+          invalid.add(name);
+          growing = true;
+        }
+      });
+    }
+    return invalid;
+  }
+
+  // Drops components that neither a route nor another component uses anymore
+  private pruneComponents(used: Set<string>): void {
+    const schemas = this.spec.components?.schemas || {};
+    const reachable = new Set<string>();
+    const visit = (value: unknown) => this.getSchemaRefNames(value).forEach(name => {
+      if (!reachable.has(name) && schemas[name]) {
+        reachable.add(name);
+        visit(schemas[name]);
+      }
+    });
+    visit(this.spec.paths);
+    visit(this.spec.webhooks);
+    used.forEach(name => {
+      reachable.add(name);
+      visit(schemas[name]);
+    });
+
+    Object.keys(schemas).filter(name => !reachable.has(name)).forEach(name => this.removeComponent(name));
+  }
+
+  private removeComponent(name: string): void {
+    delete this.spec.components?.schemas?.[name];
+    const key = this.componentKeys.get(name);
+    this.componentKeys.delete(name);
+    if (key) this.componentNamesByKey.delete(key);
+    this.componentDependencies.delete(name);
+    this.builtSchemas.delete(name);
+  }
+
+  private getSchemaRefNames(value: unknown): string[] {
+    const refs = JSON.stringify(value ?? null).match(/"#\/components\/schemas\/[^"]+"/g) || [];
+    return refs.map(ref => ref.slice('"#/components/schemas/'.length, -1));
+  }
+
+  generateSpec(): OpenAPIObject {
+    return this.spec;
+  }
+
+  // Serialize the spec with stable key ordering
+  serializeSpec(format: SpecFormat = 'json'): string {
+    return serializeSpec(this.spec, format);
+  }
+
+  // Renders a TypeScript module that validates proxy events and results
+  // against the spec. It only imports the validation runtime, so it can be
+  // bundled into Lambda functions without the generator.
+  renderValidatorModule(importFrom: string = 'ts-to-openapi-spec/dist/validation'): string {
+    return [
+      '// Generated by ts-to-openapi-spec. Do not edit.',
+      `import { createValidator } from '${importFrom}';`,
+      '',
+      `export const spec = ${serializeSpec(this.spec)};`,
+      '',
+      '// The literal types of the spec are narrower than the OpenAPI types',
+      'export const validator = createValidator(spec as unknown as Parameters<typeof createValidator>[0]);',
+      'export const { validateRequest, validateResponse, wrap } = validator;',
+      ''
+    ].join('\n');
+  }
+
+  writeValidatorModule(filePath: string, importFrom?: string): void {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, this.renderValidatorModule(importFrom));
+  }
+
+  // Renders a fetch-based client with one function per operation. The
+  // request and response types are imported relative to `filePath`, so the
+  // module should be written where it is rendered for.
+  renderClientModule(filePath: string): string {
+    return renderClient(path.resolve(filePath), [...this.clientOperations.values()], this.spec.servers || []);
+  }
+
+  writeClientModule(filePath: string): void {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, this.renderClientModule(filePath));
+  }
+
+  // Serves the registered routes from a local mock server. It keeps serving
+  // the current spec while `watch` regenerates it.
+  startMockServer(options: MockServerOptions = {}): Promise<MockServer> {
+    return startMockServer(this.spec, { seed: this.examples?.seed, ...options });
   }
 
-  // Optional: Write spec to a file
-  writeSpecToFile(filePath: string) {
-    const fs = require('fs');
-    fs.writeFileSync(filePath, JSON.stringify(this.spec, null, 2));
+  // Optional: Write spec to a file. The format follows the file extension
+  // unless given, and `split` writes schemas and paths to separate files.
+  writeSpecToFile(filePath: string, options: SpecOutputOptions = {}): string[] {
+    return writeSpecFiles(this.spec, filePath, options);
   }
 }
 
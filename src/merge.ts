@@ -0,0 +1,235 @@
+import { OpenAPIObject, OperationObject, PathItemObject, ServerObject, TagObject } from 'openapi3-ts';
+import { HTTP_METHODS } from './diff';
+import { rewriteRefs } from './output';
+import { MergeConflict, MergeConflictCode } from './types';
+import { resolve } from './validation';
+
+export type MergeSource = {
+  // Used to namespace conflicting components and in conflict reports
+  name: string;
+  spec: OpenAPIObject;
+  pathPrefix?: string;
+};
+
+export type MergeOptions = {
+  title: string;
+  version: string;
+  description?: string;
+  // Listed before the servers of the merged specs
+  servers?: ServerObject[];
+};
+
+export type MergeResult = {
+  spec: OpenAPIObject;
+  conflicts: MergeConflict[];
+};
+
+type ComponentOrigin = {
+  spec: OpenAPIObject;
+  name: string;
+};
+
+// Combines the specs of several services into one document. Identical
+// components are shared, conflicting ones are prefixed with the service
+// name, and every conflict is reported rather than overwritten.
+export function mergeSpecs(sources: MergeSource[], options: MergeOptions): MergeResult {
+  const versions = [...new Set(sources.map(source => source.spec.openapi))];
+  if (versions.length > 1) {
+    throw new Error(`Cannot merge specs with different OpenAPI versions: ${versions.join(', ')}`);
+  }
+
+  const merged: OpenAPIObject = {
+    openapi: versions[0] || '3.0.0',
+    info: {
+      title: options.title,
+      version: options.version,
+      ...(options.description && { description: options.description })
+    },
+    paths: {},
+    components: {}
+  };
+  const conflicts: MergeConflict[] = [];
+  const componentOrigins = new Map<string, ComponentOrigin>();
+  const operationOwners = new Map<string, string>();
+  const operationIds = new Map<string, string>();
+  const servers = [...(options.servers || [])];
+  const tags: TagObject[] = [];
+  const extensions: Record<string, unknown> = {};
+
+  sources.forEach(source => {
+    const spec = JSON.parse(JSON.stringify(source.spec)) as OpenAPIObject;
+    const report = (code: MergeConflictCode, message: string) => conflicts.push({ code, source: source.name, message });
+
+    // Name every component first, so references can be rewritten in one pass
+    const refs = new Map<string, string>();
+    const securitySchemeNames = new Map<string, string>();
+    const added: Array<[string, string, unknown]> = [];
+    Object.entries(spec.components || {}).forEach(([section, components]) => {
+      Object.entries(components || {}).forEach(([name, component]) => {
+        const mergedName = claimComponentName(componentOrigins, section, name, source);
+        if (mergedName !== name) {
+          report('component-renamed', `${section} '${name}' differs from another service's and was renamed to '${mergedName}'`);
+        }
+        refs.set(`#/components/${section}/${name}`, `#/components/${section}/${mergedName}`);
+        if (section === 'securitySchemes') {
+          securitySchemeNames.set(name, mergedName);
+        }
+        if (!componentOrigins.has(`${section}/${mergedName}`)) {
+          componentOrigins.set(`${section}/${mergedName}`, { spec: source.spec, name });
+          added.push([section, mergedName, component]);
+        }
+      });
+    });
+
+    const rewrite = (value: unknown) => rewriteRefs(value, ref => refs.get(ref) || ref);
+    const renameSecurity = (security: Array<Record<string, string[]>>) => security.map(requirement =>
+      Object.fromEntries(Object.entries(requirement).map(([name, scopes]) => [securitySchemeNames.get(name) || name, scopes]))
+    );
+
+    added.forEach(([section, name, component]) => {
+      const components = merged.components as Record<string, Record<string, unknown>>;
+      components[section] = { ...components[section], [name]: rewrite(component) };
+    });
+
+    // Each operation keeps its service's default security, since the
+    // merged document has none of its own
+    const mergePathItem = (pathItems: Record<string, PathItemObject>, key: string, label: (method: string) => string, pathItem: PathItemObject) => {
+      const target = (pathItems[key] || {}) as Record<string, unknown>;
+      pathItems[key] = target;
+      Object.entries(rewrite(pathItem) as PathItemObject).forEach(([field, value]) => {
+        if (!(HTTP_METHODS as readonly string[]).includes(field)) {
+          if (!(field in target)) target[field] = value;
+          return;
+        }
+
+        const operationLabel = label(field);
+        const owner = operationOwners.get(operationLabel);
+        if (owner) {
+          report('operation-conflict', `${operationLabel} is already defined by ${owner} and was left out`);
+          return;
+        }
+        operationOwners.set(operationLabel, source.name);
+
+        const operation = value as OperationObject;
+        const security = operation.security || spec.security;
+        if (security) {
+          operation.security = renameSecurity(security);
+        }
+        if (operation.operationId) {
+          const operationId = operation.operationId;
+          if (operationIds.has(operationId)) {
+            operation.operationId = `${toCamelCase(source.name)}${operationId.charAt(0).toUpperCase()}${operationId.slice(1)}`;
+            report('operation-id-renamed', `Operation ID '${operationId}' is already used by ${operationIds.get(operationId)} and was renamed to '${operation.operationId}'`);
+          }
+          operationIds.set(operation.operationId, source.name);
+        }
+        target[field] = operation;
+      });
+    };
+
+    Object.entries(spec.paths || {}).forEach(([route, pathItem]) => {
+      const mergedRoute = joinPath(source.pathPrefix, route);
+      mergePathItem(merged.paths, mergedRoute, method => `${method.toUpperCase()} ${mergedRoute}`, pathItem);
+    });
+    Object.entries(spec.webhooks || {}).forEach(([name, pathItem]) => {
+      merged.webhooks = merged.webhooks || {};
+      mergePathItem(merged.webhooks, name, method => `${method.toUpperCase()} webhook ${name}`, pathItem as PathItemObject);
+    });
+
+    (spec.servers || []).forEach(server => {
+      if (!servers.some(existing => existing.url === server.url)) {
+        servers.push(server);
+      }
+    });
+
+    (spec.tags || []).forEach(tag => {
+      const existing = tags.find(candidate => candidate.name === tag.name);
+      if (!existing) {
+        tags.push(tag);
+      } else if (JSON.stringify(existing) !== JSON.stringify(tag)) {
+        report('tag-conflict', `Tag '${tag.name}' is defined differently by another service, the first definition was kept`);
+      }
+    });
+
+    Object.entries(spec).filter(([key]) => key.startsWith('x-')).forEach(([key, value]) => {
+      if (!(key in extensions)) {
+        extensions[key] = value;
+      } else if (JSON.stringify(extensions[key]) !== JSON.stringify(value)) {
+        report('extension-conflict', `Extension '${key}' differs from another service's, the first value was kept`);
+      }
+    });
+  });
+
+  if (servers.length > 0) merged.servers = servers;
+  if (tags.length > 0) merged.tags = tags;
+  Object.assign(merged, extensions);
+
+  return { spec: merged, conflicts };
+}
+
+// Keeps the component's name when it is free or the component already there
+// is equivalent; otherwise prefixes it with the service name
+function claimComponentName(
+  origins: Map<string, ComponentOrigin>,
+  section: string,
+  name: string,
+  source: MergeSource
+): string {
+  const prefixed = `${toCamelCase(source.name).replace(/^./, first => first.toUpperCase())}${name.charAt(0).toUpperCase()}${name.slice(1)}`;
+  const isAvailable = (candidate: string) => {
+    const origin = origins.get(`${section}/${candidate}`);
+    return !origin || isEquivalent(
+      getComponent(origin.spec, section, origin.name), origin.spec,
+      getComponent(source.spec, section, name), source.spec,
+      new Set()
+    );
+  };
+
+  if (isAvailable(name)) {
+    return name;
+  }
+  let candidate = prefixed;
+  for (let index = 2; !isAvailable(candidate); index++) {
+    candidate = `${prefixed}${index}`;
+  }
+  return candidate;
+}
+
+function getComponent(spec: OpenAPIObject, section: string, name: string): unknown {
+  return (spec.components as Record<string, Record<string, unknown>> | undefined)?.[section]?.[name];
+}
+
+// Compares two values from different specs, following $refs on both sides,
+// so components are equal when everything they reference is equal too
+function isEquivalent(a: any, specA: OpenAPIObject, b: any, specB: OpenAPIObject, seen: Set<string>): boolean {
+  if (!a || !b || typeof a !== 'object' || typeof b !== 'object') {
+    return a === b;
+  }
+  if (typeof a.$ref === 'string' && typeof b.$ref === 'string') {
+    const key = `${a.$ref}|${b.$ref}`;
+    if (seen.has(key)) return true;
+    seen.add(key);
+    return isEquivalent(resolve(specA, a), specA, resolve(specB, b), specB, seen);
+  }
+  if (Array.isArray(a) !== Array.isArray(b)) {
+    return false;
+  }
+  const keys = Object.keys(a);
+  return keys.length === Object.keys(b).length
+    && keys.every(key => key in b && isEquivalent(a[key], specA, b[key], specB, seen));
+}
+
+// `/users` and `/{userId}` become `/users/{userId}`; the root path becomes the prefix itself
+function joinPath(prefix: string | undefined, route: string): string {
+  const normalizedPrefix = (prefix || '').replace(/^\/*/, '/').replace(/\/+$/, '');
+  if (!normalizedPrefix) return route;
+  return route === '/' ? normalizedPrefix : `${normalizedPrefix}${route}`;
+}
+
+function toCamelCase(value: string): string {
+  return value
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map((word, index) => index === 0 ? word.charAt(0).toLowerCase() + word.slice(1) : word.charAt(0).toUpperCase() + word.slice(1))
+    .join('');
+}
@@ -0,0 +1,197 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { HeaderObject, MediaTypeObject, OpenAPIObject, OperationObject, PathItemObject, ResponseObject } from 'openapi3-ts';
+import { HTTP_METHODS } from './diff';
+import { generateExample } from './examples';
+import { MockServer, MockServerOptions, ProxyEvent, ProxyResult } from './types';
+import { JSON_MEDIA_TYPE, createValidator, resolve, toBadRequest } from './validation';
+
+type MatchedPath = {
+  template: string;
+  pathParameters: Record<string, string>;
+};
+
+// Serves the spec's operations from a local HTTP server. Requests are
+// validated like `createValidator` does for Lambda handlers, and answered
+// with the documented example or one synthesized from the response schema.
+// The spec is read on every request, so a spec that is regenerated in
+// place is served as it changes.
+export function startMockServer(spec: OpenAPIObject, options: MockServerOptions = {}): Promise<MockServer> {
+  const validator = createValidator(spec);
+  const cors = options.cors ?? true;
+
+  const handle = (method: string, path: string, event: ProxyEvent): ProxyResult => {
+    const matches = matchPaths(spec, path);
+    if (matches.length === 0) {
+      return jsonResult(404, { message: `No path is documented for ${path}` });
+    }
+
+    const matched = matches.find(match => getOperation(spec, match.template, method));
+    if (!matched) {
+      if (cors && method === 'options') {
+        return { statusCode: 204, headers: { 'Access-Control-Allow-Headers': '*', 'Access-Control-Allow-Methods': '*' } };
+      }
+      const allowed = HTTP_METHODS.filter(candidate => getOperation(spec, matches[0].template, candidate));
+      return {
+        ...jsonResult(405, { message: `${method.toUpperCase()} is not documented for ${matches[0].template}` }),
+        headers: { 'Content-Type': 'application/json', Allow: allowed.map(candidate => candidate.toUpperCase()).join(', ') }
+      };
+    }
+
+    if (options.validateRequests ?? true) {
+      const result = validator.validateRequest(method, matched.template, { ...event, pathParameters: matched.pathParameters });
+      if (!result.valid) {
+        return toBadRequest(result.errors);
+      }
+    }
+
+    return mockResponse(spec, getOperation(spec, matched.template, method) as OperationObject, event, options.seed);
+  };
+
+  const server = http.createServer((request, response) => {
+    const chunks: Buffer[] = [];
+    request.on('data', (chunk: Buffer) => chunks.push(chunk));
+    request.on('end', () => {
+      const url = new URL(request.url || '/', 'http://localhost');
+      const method = (request.method || 'GET').toLowerCase();
+      let result: ProxyResult;
+      try {
+        result = handle(method, url.pathname, toProxyEvent(request, url, Buffer.concat(chunks)));
+      } catch (error: any) {
+        result = jsonResult(500, { message: error.message });
+      }
+
+      const headers = { ...(cors && { 'Access-Control-Allow-Origin': '*' }), ...result.headers };
+      response.writeHead(result.statusCode, headers as http.OutgoingHttpHeaders);
+      response.end(method === 'head' ? undefined : result.body);
+      options.onRequest?.({ method: method.toUpperCase(), path: url.pathname, statusCode: result.statusCode });
+    });
+  });
+
+  return new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(options.port ?? 4010, options.host ?? '127.0.0.1', () => {
+      const { address, port } = server.address() as AddressInfo;
+      resolve({
+        url: `http://${address.includes(':') ? `[${address}]` : address}:${port}`,
+        port,
+        close: () => new Promise<void>((resolveClose, rejectClose) => {
+          server.close(error => error ? rejectClose(error) : resolveClose());
+          // Keep-alive connections would otherwise hold the server open
+          (server as http.Server & { closeAllConnections?: () => void }).closeAllConnections?.();
+        })
+      });
+    });
+  });
+}
+
+// Templates without parameters win over templated ones, so `/users/me`
+// is matched before `/users/{userId}`
+function matchPaths(spec: OpenAPIObject, path: string): MatchedPath[] {
+  const segments = path.split('/');
+  return Object.keys(spec.paths)
+    .map(template => {
+      const templateSegments = template.split('/');
+      if (templateSegments.length !== segments.length) return undefined;
+
+      const pathParameters: Record<string, string> = {};
+      const matches = templateSegments.every((segment, index) => {
+        const parameter = segment.match(/^\{(.+)\}$/);
+        if (parameter && segments[index] !== '') {
+          pathParameters[parameter[1]] = decodeURIComponent(segments[index]);
+          return true;
+        }
+        return segment === segments[index];
+      });
+      return matches ? { template, pathParameters } : undefined;
+    })
+    .filter((match): match is MatchedPath => match !== undefined)
+    .sort((a, b) => Object.keys(a.pathParameters).length - Object.keys(b.pathParameters).length);
+}
+
+function getOperation(spec: OpenAPIObject, template: string, method: string): OperationObject | undefined {
+  const pathItem = spec.paths[template] as PathItemObject | undefined;
+  return (HTTP_METHODS as readonly string[]).includes(method) ? pathItem?.[method as keyof PathItemObject] as OperationObject | undefined : undefined;
+}
+
+function toProxyEvent(request: http.IncomingMessage, url: URL, body: Buffer): ProxyEvent {
+  const headers: Record<string, string> = {};
+  Object.entries(request.headers).forEach(([name, value]) => {
+    if (value !== undefined) headers[name] = Array.isArray(value) ? value.join(', ') : value;
+  });
+
+  const multiValueQueryStringParameters: Record<string, string[]> = {};
+  url.searchParams.forEach((value, name) => {
+    multiValueQueryStringParameters[name] = [...(multiValueQueryStringParameters[name] || []), value];
+  });
+  const queryStringParameters = Object.fromEntries(
+    Object.entries(multiValueQueryStringParameters).map(([name, values]) => [name, values[values.length - 1]])
+  );
+
+  return {
+    headers,
+    queryStringParameters,
+    multiValueQueryStringParameters,
+    body: body.length > 0 ? body.toString('utf8') : null,
+    isBase64Encoded: false
+  };
+}
+
+// Answers with the status code asked for in a `Prefer: code=404` header, or
+// the first documented success status, and the media type the client accepts
+function mockResponse(spec: OpenAPIObject, operation: OperationObject, event: ProxyEvent, seed: number | undefined): ProxyResult {
+  const preferred = getHeader(event, 'prefer')?.match(/\bcode=(\d{3})\b/)?.[1];
+  const statusCodes = Object.keys(operation.responses || {});
+  const statusCode = preferred
+    || statusCodes.find(code => /^2\d\d$/.test(code))
+    || statusCodes.find(code => code !== 'default')
+    || '200';
+  const response = operation.responses?.[statusCode] || operation.responses?.default;
+  if (!response) {
+    return jsonResult(400, { message: `Status ${statusCode} is not documented for this operation` });
+  }
+
+  const { content, headers: responseHeaders } = resolve(spec, response) as ResponseObject;
+  const headers: Record<string, string> = {};
+  Object.entries(responseHeaders || {}).forEach(([name, header]) => {
+    const { example, schema } = resolve(spec, header) as HeaderObject;
+    const value = example ?? (schema ? generateExample(schema, spec, { seed, direction: 'response' }) : undefined);
+    if (value !== undefined) headers[name] = String(value);
+  });
+
+  const mediaType = pickMediaType(Object.keys(content || {}), getHeader(event, 'accept'));
+  if (!content || !mediaType) {
+    return { statusCode: Number(statusCode), headers };
+  }
+
+  const media = content[mediaType] as MediaTypeObject;
+  const namedExample = Object.values(media.examples || {})[0];
+  const example = media.example
+    ?? (namedExample && (resolve(spec, namedExample) as { value?: unknown }).value)
+    ?? (media.schema ? generateExample(media.schema, spec, { seed, direction: 'response' }) : undefined);
+  if (example === undefined) {
+    return { statusCode: Number(statusCode), headers: { ...headers, 'Content-Type': mediaType } };
+  }
+
+  return {
+    statusCode: Number(statusCode),
+    headers: { ...headers, 'Content-Type': mediaType },
+    body: JSON_MEDIA_TYPE.test(mediaType) || typeof example !== 'string' ? JSON.stringify(example) : example
+  };
+}
+
+// Picks the first documented media type the Accept header allows
+function pickMediaType(mediaTypes: string[], accept: string | undefined): string | undefined {
+  const accepted = (accept || '*/*').split(',').map(type => type.split(';')[0].trim().toLowerCase());
+  return mediaTypes.find(mediaType => accepted.some(type =>
+    type === '*/*' || type === mediaType || (type.endsWith('/*') && mediaType.startsWith(type.slice(0, -1)))
+  )) || mediaTypes[0];
+}
+
+function getHeader(event: ProxyEvent, name: string): string | undefined {
+  return event.headers?.[name] ?? undefined;
+}
+
+function jsonResult(statusCode: number, body: unknown): ProxyResult {
+  return { statusCode, headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body) };
+}
@@ -0,0 +1,194 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { parse, stringify } from 'yaml';
+import { OpenAPIObject } from 'openapi3-ts';
+import { SpecFormat, SpecOutputOptions } from './types';
+
+const SCHEMA_REF_PREFIX = '#/components/schemas/';
+
+// Conventional order of the top-level OpenAPI fields; anything else
+// (such as `x-` extensions) follows in alphabetical order
+const TOP_LEVEL_ORDER = ['openapi', 'info', 'jsonSchemaDialect', 'servers', 'tags', 'security', 'paths', 'webhooks', 'components', 'externalDocs'];
+
+export function getFormatFromPath(filePath: string): SpecFormat {
+  const extension = path.extname(filePath).toLowerCase();
+  return extension === '.yaml' || extension === '.yml' ? 'yaml' : 'json';
+}
+
+export function serializeSpec(spec: object, format: SpecFormat = 'json'): string {
+  return stringifyDocument(orderSpec(spec), format);
+}
+
+function stringifyDocument(value: unknown, format: SpecFormat): string {
+  return format === 'yaml'
+    ? stringify(value, { aliasDuplicateObjects: false, lineWidth: 0 })
+    : JSON.stringify(value, null, 2);
+}
+
+// Orders keys so that output does not depend on the order in which routes
+// and types were added: top-level fields follow the OpenAPI layout, while
+// paths and component maps are sorted by name
+export function orderSpec<T extends object>(spec: T): T {
+  const source = spec as Record<string, any>;
+  const ordered: Record<string, any> = {};
+
+  const keys = Object.keys(source).sort((a, b) => {
+    const indexA = TOP_LEVEL_ORDER.indexOf(a);
+    const indexB = TOP_LEVEL_ORDER.indexOf(b);
+    if (indexA === -1 && indexB === -1) return a.localeCompare(b);
+    if (indexA === -1) return 1;
+    if (indexB === -1) return -1;
+    return indexA - indexB;
+  });
+
+  keys.forEach(key => {
+    const value = source[key];
+    if ((key === 'paths' || key === 'webhooks') && value) {
+      ordered[key] = sortKeys(value);
+    } else if (key === 'components' && value) {
+      ordered[key] = Object.fromEntries(
+        Object.keys(value).sort().map(section => [section, sortKeys(value[section])])
+      );
+    } else {
+      ordered[key] = value;
+    }
+  });
+
+  return ordered as T;
+}
+
+function sortKeys(value: Record<string, any>): Record<string, any> {
+  return Object.fromEntries(Object.keys(value).sort().map(key => [key, value[key]]));
+}
+
+// Renders the files that make up the spec, keyed by absolute path. In split
+// mode every component schema and every path gets its own file, linked from
+// the root file with relative $refs.
+export function renderSpecFiles(spec: OpenAPIObject, filePath: string, options: SpecOutputOptions = {}): Map<string, string> {
+  const format = options.format || getFormatFromPath(filePath);
+  const rootPath = path.resolve(filePath);
+  const files = new Map<string, string>();
+
+  if (!options.split) {
+    files.set(rootPath, serializeSpec(spec, format));
+    return files;
+  }
+
+  const rootDir = path.dirname(rootPath);
+  const extension = format === 'yaml' ? 'yaml' : 'json';
+  const schemaFile = (name: string) => path.join('components', 'schemas', `${name}.${extension}`);
+  const root: OpenAPIObject = { ...spec, paths: {} };
+
+  const schemas = spec.components?.schemas || {};
+  if (Object.keys(schemas).length > 0) {
+    root.components = { ...spec.components, schemas: {} };
+    Object.entries(schemas).forEach(([name, schema]) => {
+      const file = schemaFile(name);
+      const content = rewriteSchemaRefs(schema, target => `./${target}.${extension}`);
+      files.set(path.join(rootDir, file), stringifyDocument(content, format));
+      root.components!.schemas![name] = { $ref: toRefPath(file) };
+    });
+  }
+
+  Object.entries(spec.paths).forEach(([route, pathItem]) => {
+    const file = path.join('paths', `${pathFileName(route)}.${extension}`);
+    const content = rewriteSchemaRefs(pathItem, target => toRefPath(path.join('..', schemaFile(target))));
+    files.set(path.join(rootDir, file), stringifyDocument(content, format));
+    root.paths[route] = { $ref: toRefPath(file) };
+  });
+
+  files.set(rootPath, serializeSpec(root, format));
+  return files;
+}
+
+export function writeSpecFiles(spec: OpenAPIObject, filePath: string, options: SpecOutputOptions = {}): string[] {
+  const files = renderSpecFiles(spec, filePath, options);
+  files.forEach((content, file) => {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, content);
+  });
+  return [...files.keys()];
+}
+
+// Reads a spec written by `writeSpecFiles`. The files of a split spec are
+// read back into the root document and their $refs restored.
+export function readSpecFiles(filePath: string): OpenAPIObject {
+  const rootPath = path.resolve(filePath);
+  const rootDir = path.dirname(rootPath);
+  const spec = readDocument(rootPath) as OpenAPIObject;
+  const isFileRef = (value: any): value is { $ref: string } =>
+    Boolean(value) && typeof value.$ref === 'string' && !value.$ref.startsWith('#');
+
+  // Split schema files are named after their component
+  const schemaDir = path.join(rootDir, 'components', 'schemas');
+  const readSplitFile = (ref: string) => {
+    const file = path.join(rootDir, ref);
+    return rewriteRefs(readDocument(file), target => {
+      const targetFile = path.resolve(path.dirname(file), target);
+      return !target.startsWith('#') && path.dirname(targetFile) === schemaDir
+        ? `${SCHEMA_REF_PREFIX}${path.basename(targetFile, path.extname(targetFile))}`
+        : target;
+    });
+  };
+
+  const schemas = spec.components?.schemas || {};
+  Object.entries(schemas).forEach(([name, schema]) => {
+    if (isFileRef(schema)) {
+      schemas[name] = readSplitFile(schema.$ref);
+    }
+  });
+
+  Object.entries(spec.paths || {}).forEach(([route, pathItem]) => {
+    if (isFileRef(pathItem)) {
+      spec.paths[route] = readSplitFile(pathItem.$ref);
+    }
+  });
+
+  return spec;
+}
+
+function readDocument(filePath: string): unknown {
+  const content = fs.readFileSync(filePath, 'utf8');
+  return getFormatFromPath(filePath) === 'yaml' ? parse(content) : JSON.parse(content);
+}
+
+// `/users/{userId}` becomes `users_{userId}`, the root path becomes `root`
+function pathFileName(route: string): string {
+  const name = route.replace(/^\/+|\/+$/g, '').replace(/\//g, '_');
+  return name || 'root';
+}
+
+function toRefPath(file: string): string {
+  return file.split(path.sep).join('/');
+}
+
+// Replaces `#/components/schemas/*` references, including discriminator
+// mappings, with references to the split schema files
+function rewriteSchemaRefs(value: any, toFile: (name: string) => string): any {
+  return rewriteRefs(value, ref =>
+    ref.startsWith(SCHEMA_REF_PREFIX) ? toFile(ref.slice(SCHEMA_REF_PREFIX.length)) : ref
+  );
+}
+
+// Rewrites every $ref, including discriminator mappings
+export function rewriteRefs(value: any, rewrite: (ref: string) => string): any {
+  if (Array.isArray(value)) {
+    return value.map(item => rewriteRefs(item, rewrite));
+  }
+  if (!value || typeof value !== 'object') {
+    return value;
+  }
+
+  return Object.fromEntries(Object.entries(value).map(([key, child]) => {
+    if (key === '$ref' && typeof child === 'string') {
+      return [key, rewrite(child)];
+    }
+    if (key === 'mapping' && child && typeof child === 'object'
+      && Object.values(child).every(ref => typeof ref === 'string')) {
+      return [key, Object.fromEntries(
+        Object.entries(child as Record<string, string>).map(([name, ref]) => [name, rewrite(ref)])
+      )];
+    }
+    return [key, rewriteRefs(child, rewrite)];
+  }));
+}
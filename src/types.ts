@@ -1,13 +1,38 @@
+export type EncodingDefinition = {
+  contentType?: string;
+  style?: 'form' | 'spaceDelimited' | 'pipeDelimited' | 'deepObject';
+  explode?: boolean;
+  allowReserved?: boolean;
+};
+
 export type ResponseDefinition = {
   statusCode: number;
   description: string;
   type?: string;
+  contentTypes?: string[];
+  encoding?: {
+    [field: string]: EncodingDefinition;
+  };
 };
 
 export type PathParameterDefinition = {
   description?: string;
 };
 
+export type ApiGatewayAuthorizer = {
+  type: 'token' | 'request' | 'cognito_user_pools' | 'jwt';
+  lambdaArn?: string;
+  identitySource?: string;
+  identityValidationExpression?: string;
+  authorizerCredentials?: string;
+  authorizerResultTtlInSeconds?: number;
+  providerARNs?: string[];
+  jwtConfiguration?: {
+    issuer: string;
+    audience: string[];
+  };
+};
+
 export type SecurityScheme = {
   type: 'apiKey' | 'http' | 'oauth2' | 'openIdConnect';
   description?: string;
@@ -17,6 +42,7 @@ export type SecurityScheme = {
   bearerFormat?: string;
   flows?: any; // OAuth2 flows
   openIdConnectUrl?: string;
+  authorizer?: ApiGatewayAuthorizer;
 };
 
 export type QueryParameter = {
@@ -56,11 +82,58 @@ export type ServerConfiguration = {
   };
 };
 
+export type ExternalDocsDefinition = {
+  url: string;
+  description?: string;
+};
+
+export type TagDefinition = {
+  name: string;
+  description?: string;
+  externalDocs?: ExternalDocsDefinition;
+};
+
+export type ApiGatewayIntegration = {
+  lambdaArn?: string;
+  functionName?: string;
+  region?: string;
+  proxy?: boolean;
+  timeoutInMillis?: number;
+  credentials?: string;
+};
+
+export type RequestValidator = 'all' | 'params-only' | 'body-only';
+
+export type CorsConfiguration = {
+  allowOrigin: string;
+  allowHeaders?: string[];
+  allowCredentials?: boolean;
+  maxAge?: number;
+};
+
+export type ApiGatewayConfig = {
+  integration?: ApiGatewayIntegration;
+  requestValidator?: RequestValidator;
+  cors?: CorsConfiguration;
+};
+
 export type RouteDefinition = {
   path: string;
   method: 'get' | 'post' | 'put' | 'delete' | 'patch';
+  summary?: string;
   description?: string;
+  operationId?: string;
+  tags?: string[];
+  deprecated?: boolean;
+  externalDocs?: ExternalDocsDefinition;
   requestType?: string;
+  requestContentTypes?: string[];
+  requestEncoding?: {
+    [field: string]: EncodingDefinition;
+  };
+  pathParamsType?: string;
+  queryType?: string;
+  headersType?: string;
   parameters?: {
     [key: string]: PathParameterDefinition;
   };
@@ -72,17 +145,221 @@ export type RouteDefinition = {
     response?: HeaderDefinition[];
   };
   security?: string[];
+  integration?: ApiGatewayIntegration;
+  requestValidator?: RequestValidator;
   responses: ResponseDefinition[];
 };
 
+export type ImportedRoute = RouteDefinition & {
+  functionName?: string;
+};
+
+export type ImportedRoutes = {
+  routes: ImportedRoute[];
+  securitySchemes: {
+    [name: string]: SecurityScheme;
+  };
+};
+
+export type WebhookDefinition = Omit<RouteDefinition, 'path' | 'parameters' | 'pathParamsType'>;
+
 export type ProjectConfig = {
   rootDir: string;
   include: string[];
   exclude?: string[];
+  tsConfigFilePath?: string;
+  // Leave `.d.ts` files out of the project and the type name lookup
+  skipDeclarationFiles?: boolean;
+};
+
+export type OpenAPIVersion = '3.0' | '3.1';
+
+export type ExampleConfig = {
+  seed?: number;
 };
 
 export type GeneratorConfig = {
   title?: string;
   version?: string;
+  openapiVersion?: OpenAPIVersion;
+  strict?: boolean;
+  apiGateway?: ApiGatewayConfig;
+  examples?: boolean | ExampleConfig;
   project: ProjectConfig;
+};
+
+export type DiagnosticCode =
+  | 'unknown-path-parameter'
+  | 'unknown-security-scheme'
+  | 'duplicate-route'
+  | 'duplicate-operation-id'
+  | 'request-body-not-allowed'
+  | 'unsupported-type'
+  | 'invalid-route-annotation';
+
+export type SpecChangeCode =
+  | 'path-added'
+  | 'path-removed'
+  | 'webhook-added'
+  | 'webhook-removed'
+  | 'operation-added'
+  | 'operation-removed'
+  | 'parameter-added'
+  | 'parameter-removed'
+  | 'parameter-required'
+  | 'parameter-optional'
+  | 'parameter-location-changed'
+  | 'request-body-added'
+  | 'request-body-removed'
+  | 'request-body-required'
+  | 'media-type-added'
+  | 'media-type-removed'
+  | 'response-added'
+  | 'response-removed'
+  | 'property-added'
+  | 'property-removed'
+  | 'property-required'
+  | 'property-optional'
+  | 'type-changed'
+  | 'enum-narrowed'
+  | 'enum-widened'
+  | 'variant-added'
+  | 'variant-removed'
+  | 'security-added'
+  | 'security-removed'
+  | 'security-changed';
+
+export type SpecChange = {
+  code: SpecChangeCode;
+  breaking: boolean;
+  operation?: string;
+  location?: string;
+  message: string;
+};
+
+export type ChangeReportFormat = 'text' | 'json';
+
+export type GeneratorDiagnostic = {
+  code: DiagnosticCode;
+  message: string;
+  route?: string;
+  file?: string;
+  line?: number;
+};
+
+export type ProxyEvent = {
+  body?: string | null;
+  isBase64Encoded?: boolean;
+  headers?: { [name: string]: string | undefined } | null;
+  pathParameters?: { [name: string]: string | undefined } | null;
+  queryStringParameters?: { [name: string]: string | undefined } | null;
+  multiValueQueryStringParameters?: { [name: string]: string[] | undefined } | null;
+};
+
+export type ProxyResult = {
+  statusCode: number;
+  headers?: { [name: string]: string | number | boolean | undefined };
+  body?: string;
+  isBase64Encoded?: boolean;
+};
+
+export type ValidationError = {
+  location: 'path' | 'query' | 'header' | 'body' | 'response';
+  field: string;
+  message: string;
+};
+
+export type ValidationResult = {
+  valid: boolean;
+  errors: ValidationError[];
+};
+
+export type ValidatorOptions = {
+  validateResponses?: boolean;
+};
+
+export type MockServerOptions = {
+  port?: number;
+  host?: string;
+  seed?: number;
+  validateRequests?: boolean;
+  cors?: boolean;
+  onRequest?: (request: MockRequest) => void;
+};
+
+export type MockRequest = {
+  method: string;
+  path: string;
+  statusCode: number;
+};
+
+export type MockServer = {
+  url: string;
+  port: number;
+  close(): Promise<void>;
+};
+
+export type WatchOptions = {
+  debounceMs?: number;
+  onRegenerate?: (changedFiles: string[]) => void;
+  onError?: (error: Error) => void;
+};
+
+export type SpecWatcher = {
+  close(): void;
+};
+
+export type SpecFormat = 'json' | 'yaml';
+
+export type SpecOutputOptions = {
+  format?: SpecFormat;
+  split?: boolean;
+};
+
+export type MergeConflictCode =
+  | 'component-renamed'
+  | 'operation-id-renamed'
+  | 'operation-conflict'
+  | 'tag-conflict'
+  | 'extension-conflict';
+
+export type MergeConflict = {
+  code: MergeConflictCode;
+  // Service whose definition was renamed or left out
+  source: string;
+  message: string;
+};
+
+export type MergeServiceConfig = {
+  name: string;
+  pathPrefix?: string;
+  // Spec file written by the service, or the service's own config file to
+  // generate it from
+  spec?: string;
+  config?: string;
+};
+
+export type MergeConfig = SpecOutputOptions & {
+  title: string;
+  version: string;
+  description?: string;
+  output?: string;
+  servers?: ServerConfiguration[];
+  services: MergeServiceConfig[];
+};
+
+export type CliConfig = GeneratorConfig & SpecOutputOptions & {
+  output?: string;
+  validators?: string;
+  client?: string;
+  servers?: ServerConfiguration[];
+  tags?: TagDefinition[];
+  securitySchemes?: {
+    [name: string]: SecurityScheme;
+  };
+  discoverRoutes?: boolean;
+  routes?: RouteDefinition[];
+  webhooks?: {
+    [name: string]: WebhookDefinition;
+  };
 };
\ No newline at end of file
@@ -0,0 +1,347 @@
+import { OpenAPIObject, OperationObject, ParameterObject, PathItemObject, ReferenceObject, ResponseObject, SchemaObject, isReferenceObject } from 'openapi3-ts';
+import { ProxyEvent, ProxyResult, ValidationError, ValidationResult, ValidatorOptions } from './types';
+
+export const JSON_MEDIA_TYPE = /^application\/(.+\+)?json$/;
+
+export type Validator = {
+  validateRequest(method: string, path: string, event: ProxyEvent): ValidationResult;
+  validateResponse(method: string, path: string, result: ProxyResult): ValidationResult;
+  wrap<E extends ProxyEvent, R extends ProxyResult>(
+    method: string,
+    path: string,
+    handler: (event: E) => Promise<R>
+  ): (event: E) => Promise<R | ProxyResult>;
+};
+
+// Validates API Gateway proxy events and results against a generated spec,
+// so handlers check exactly what the spec documents
+export function createValidator(spec: OpenAPIObject, options: ValidatorOptions = {}): Validator {
+  const validateResponses = options.validateResponses ?? process.env.NODE_ENV !== 'production';
+
+  const validateRequest = (method: string, path: string, event: ProxyEvent): ValidationResult => {
+    const operation = findOperation(spec, method, path);
+    const errors: ValidationError[] = [];
+
+    (operation.parameters || []).forEach(parameter => {
+      validateParameter(spec, resolve(spec, parameter) as ParameterObject, event, errors);
+    });
+
+    const requestBody = operation.requestBody && resolve(spec, operation.requestBody);
+    if (requestBody && 'content' in requestBody) {
+      const mediaType = getMediaType(event.headers);
+      const schema = getJsonSchema(requestBody.content, mediaType);
+      if (!event.body) {
+        if (requestBody.required) {
+          errors.push({ location: 'body', field: 'body', message: 'Request body is required' });
+        }
+      } else if (schema) {
+        const body = parseJson(event.body, event.isBase64Encoded);
+        if (body === undefined) {
+          errors.push({ location: 'body', field: 'body', message: 'Request body is not valid JSON' });
+        } else {
+          validateSchema(spec, schema, body, 'body', 'body', 'request', errors);
+        }
+      }
+    }
+
+    return { valid: errors.length === 0, errors };
+  };
+
+  const validateResponse = (method: string, path: string, result: ProxyResult): ValidationResult => {
+    if (!validateResponses) {
+      return { valid: true, errors: [] };
+    }
+
+    const operation = findOperation(spec, method, path);
+    const response = operation.responses[String(result.statusCode)] || operation.responses.default;
+    if (!response) {
+      return {
+        valid: false,
+        errors: [{ location: 'response', field: 'statusCode', message: `Status ${result.statusCode} is not documented` }]
+      };
+    }
+
+    const errors: ValidationError[] = [];
+    const schema = getJsonSchema((resolve(spec, response) as ResponseObject).content, getMediaType(result.headers));
+    if (schema && result.body) {
+      const body = parseJson(result.body, result.isBase64Encoded);
+      if (body === undefined) {
+        errors.push({ location: 'response', field: 'body', message: 'Response body is not valid JSON' });
+      } else {
+        validateSchema(spec, schema, body, 'body', 'response', 'response', errors);
+      }
+    }
+    return { valid: errors.length === 0, errors };
+  };
+
+  // Answers invalid requests with a 400 and, outside production, throws
+  // when the handler's result does not match the spec
+  const wrap: Validator['wrap'] = (method, path, handler) => async event => {
+    const request = validateRequest(method, path, event);
+    if (!request.valid) {
+      return toBadRequest(request.errors);
+    }
+
+    const result = await handler(event);
+    const response = validateResponse(method, path, result);
+    if (!response.valid) {
+      const details = response.errors.map(error => `${error.field}: ${error.message}`).join(', ');
+      throw new Error(`Response of ${method.toUpperCase()} ${path} does not match the spec: ${details}`);
+    }
+    return result;
+  };
+
+  return { validateRequest, validateResponse, wrap };
+}
+
+export function toBadRequest(errors: ValidationError[]): ProxyResult {
+  return {
+    statusCode: 400,
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ message: 'Invalid request', errors })
+  };
+}
+
+// Accepts a path template such as `/users/{userId}` or a concrete path
+// such as `/users/42`
+function findOperation(spec: OpenAPIObject, method: string, path: string): OperationObject {
+  const pathItem = spec.paths[path] as PathItemObject | undefined
+    || Object.entries(spec.paths).find(([template]) => matchesTemplate(template, path))?.[1] as PathItemObject | undefined;
+  const operation = pathItem?.[method.toLowerCase() as keyof PathItemObject] as OperationObject | undefined;
+  if (!operation) {
+    throw new Error(`No operation is documented for ${method.toUpperCase()} ${path}`);
+  }
+  return operation;
+}
+
+function matchesTemplate(template: string, path: string): boolean {
+  const pattern = template
+    .split(/\{[^}]+\}/)
+    .map(part => part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+    .join('[^/]+');
+  return new RegExp(`^${pattern}$`).test(path);
+}
+
+function validateParameter(spec: OpenAPIObject, parameter: ParameterObject, event: ProxyEvent, errors: ValidationError[]): void {
+  const location = parameter.in === 'path' ? 'path' : parameter.in === 'query' ? 'query' : 'header';
+  if (parameter.in === 'cookie') {
+    return;
+  }
+
+  const schema = parameter.schema ? resolve(spec, parameter.schema) as SchemaObject : undefined;
+  const raw = getParameterValue(parameter, event, schema);
+  if (raw === undefined) {
+    if (parameter.required) {
+      errors.push({ location, field: parameter.name, message: 'Parameter is required' });
+    }
+    return;
+  }
+
+  if (schema) {
+    validateSchema(spec, schema, coerce(spec, schema, raw), parameter.name, location, 'request', errors);
+  }
+}
+
+function getParameterValue(parameter: ParameterObject, event: ProxyEvent, schema: SchemaObject | undefined): string | string[] | undefined {
+  switch (parameter.in) {
+    case 'path':
+      return event.pathParameters?.[parameter.name] ?? undefined;
+    case 'query': {
+      const values = event.multiValueQueryStringParameters?.[parameter.name];
+      if (getType(schema) === 'array') {
+        const value = event.queryStringParameters?.[parameter.name];
+        return values ?? (value == null ? undefined : value.split(','));
+      }
+      return event.queryStringParameters?.[parameter.name] ?? undefined;
+    }
+    default: {
+      // Header names are case-insensitive
+      const name = Object.keys(event.headers || {}).find(header => header.toLowerCase() === parameter.name.toLowerCase());
+      return name ? event.headers?.[name] ?? undefined : undefined;
+    }
+  }
+}
+
+// Path, query and header values arrive as strings and are converted to the
+// schema's type before they are validated
+function coerce(spec: OpenAPIObject, schemaOrRef: SchemaObject | ReferenceObject, value: string | string[]): unknown {
+  const schema = resolve(spec, schemaOrRef) as SchemaObject;
+  const type = getType(schema);
+
+  if (Array.isArray(value)) {
+    return type === 'array' && schema.items ? value.map(item => coerce(spec, schema.items!, item)) : value;
+  }
+  if ((type === 'number' || type === 'integer') && value.trim() !== '' && !isNaN(Number(value))) {
+    return Number(value);
+  }
+  if (type === 'boolean' && (value === 'true' || value === 'false')) {
+    return value === 'true';
+  }
+  return value;
+}
+
+function validateSchema(
+  spec: OpenAPIObject,
+  schemaOrRef: SchemaObject | ReferenceObject,
+  value: unknown,
+  field: string,
+  location: ValidationError['location'],
+  direction: 'request' | 'response',
+  errors: ValidationError[]
+): void {
+  const schema = resolve(spec, schemaOrRef) as SchemaObject & { const?: unknown; prefixItems?: Array<SchemaObject | ReferenceObject> };
+  const fail = (message: string) => errors.push({ location, field, message });
+  const matches = (candidate: SchemaObject | ReferenceObject) => {
+    const candidateErrors: ValidationError[] = [];
+    validateSchema(spec, candidate, value, field, location, direction, candidateErrors);
+    return candidateErrors.length === 0;
+  };
+
+  if (value === null) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    const allowsNull = schema.nullable || types.includes('null')
+      || (schema.oneOf || schema.anyOf || []).some(matches)
+      || (schema.enum || []).includes(null);
+    if (!allowsNull && Object.keys(schema).length > 0) {
+      fail('Must not be null');
+    }
+    return;
+  }
+
+  if (schema.allOf) {
+    schema.allOf.forEach(member => validateSchema(spec, member, value, field, location, direction, errors));
+  }
+  if (schema.oneOf && schema.oneOf.filter(matches).length !== 1) {
+    fail('Must match exactly one of the allowed schemas');
+  }
+  if (schema.anyOf && !schema.anyOf.some(matches)) {
+    fail('Must match at least one of the allowed schemas');
+  }
+  if (schema.enum && !schema.enum.includes(value)) {
+    fail(`Must be one of ${schema.enum.map(item => JSON.stringify(item)).join(', ')}`);
+  }
+  if (schema.const !== undefined && schema.const !== value) {
+    fail(`Must be ${JSON.stringify(schema.const)}`);
+  }
+
+  const types = (Array.isArray(schema.type) ? schema.type : schema.type ? [schema.type] : []).filter(type => type !== 'null');
+  if (types.length > 0 && !types.some(type => hasType(value, type))) {
+    fail(`Must be of type ${types.join(' or ')}`);
+    return;
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) fail(`Must be at least ${schema.minLength} characters long`);
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) fail(`Must be at most ${schema.maxLength} characters long`);
+    if (schema.pattern && !new RegExp(schema.pattern).test(value)) fail(`Must match the pattern ${schema.pattern}`);
+    if ((schema.format === 'date-time' || schema.format === 'date') && isNaN(Date.parse(value))) fail(`Must be a valid ${schema.format}`);
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) fail(`Must be at least ${schema.minimum}`);
+    if (schema.maximum !== undefined && value > schema.maximum) fail(`Must be at most ${schema.maximum}`);
+    // OpenAPI 3.0 marks bounds exclusive with booleans, 3.1 gives the bound itself
+    const exclusiveMinimum = schema.exclusiveMinimum === true ? schema.minimum : schema.exclusiveMinimum;
+    const exclusiveMaximum = schema.exclusiveMaximum === true ? schema.maximum : schema.exclusiveMaximum;
+    if (typeof exclusiveMinimum === 'number' && value <= exclusiveMinimum) fail(`Must be greater than ${exclusiveMinimum}`);
+    if (typeof exclusiveMaximum === 'number' && value >= exclusiveMaximum) fail(`Must be less than ${exclusiveMaximum}`);
+    if (schema.multipleOf !== undefined && value % schema.multipleOf !== 0) fail(`Must be a multiple of ${schema.multipleOf}`);
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) fail(`Must have at least ${schema.minItems} items`);
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) fail(`Must have at most ${schema.maxItems} items`);
+    if (schema.uniqueItems && new Set(value.map(item => JSON.stringify(item))).size !== value.length) fail('Items must be unique');
+    value.forEach((item, index) => {
+      const itemSchema = schema.prefixItems?.[index] || schema.items;
+      if (itemSchema) {
+        validateSchema(spec, itemSchema, item, `${field}[${index}]`, location, direction, errors);
+      }
+    });
+  }
+
+  if (value && typeof value === 'object' && !Array.isArray(value)) {
+    const object = value as Record<string, unknown>;
+    // Read-only properties are only sent in responses and write-only ones
+    // only in requests, so neither is required the other way round
+    (schema.required || [])
+      .filter(name => object[name] === undefined)
+      .filter(name => !isOmitted(spec, schema.properties?.[name], direction))
+      .forEach(name => errors.push({ location, field: `${field}.${name}`, message: 'Property is required' }));
+
+    Object.entries(object).forEach(([name, propertyValue]) => {
+      const propertySchema = schema.properties?.[name];
+      if (propertySchema) {
+        validateSchema(spec, propertySchema, propertyValue, `${field}.${name}`, location, direction, errors);
+      } else if (schema.additionalProperties === false) {
+        errors.push({ location, field: `${field}.${name}`, message: 'Property is not allowed' });
+      } else if (schema.additionalProperties && typeof schema.additionalProperties === 'object') {
+        validateSchema(spec, schema.additionalProperties, propertyValue, `${field}.${name}`, location, direction, errors);
+      }
+    });
+  }
+}
+
+function isOmitted(spec: OpenAPIObject, schemaOrRef: SchemaObject | ReferenceObject | undefined, direction: 'request' | 'response'): boolean {
+  const schema = schemaOrRef && resolve(spec, schemaOrRef);
+  return direction === 'request' ? !!schema?.readOnly : !!schema?.writeOnly;
+}
+
+function hasType(value: unknown, type: string): boolean {
+  switch (type) {
+    case 'integer':
+      return Number.isInteger(value);
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return typeof value === 'object' && !Array.isArray(value);
+    default:
+      return typeof value === type;
+  }
+}
+
+function getType(schema: SchemaObject | undefined): string | undefined {
+  const type = schema?.type;
+  return Array.isArray(type) ? type.find(item => item !== 'null') : type;
+}
+
+// Follows local `#/components/...` references
+export function resolve<T extends object>(spec: OpenAPIObject, value: T | ReferenceObject): T {
+  let resolved: any = value;
+  while (isReferenceObject(resolved)) {
+    resolved = resolved.$ref
+      .replace(/^#\//, '')
+      .split('/')
+      .reduce((node: any, key) => node?.[key], spec);
+    if (!resolved) {
+      throw new Error(`Reference '${(value as ReferenceObject).$ref}' cannot be resolved`);
+    }
+  }
+  return resolved as T;
+}
+
+function getMediaType(headers: ProxyEvent['headers'] | ProxyResult['headers']): string | undefined {
+  const name = Object.keys(headers || {}).find(header => header.toLowerCase() === 'content-type');
+  const value = name ? headers?.[name] : undefined;
+  return value === undefined ? undefined : String(value).split(';')[0].trim().toLowerCase();
+}
+
+// Only JSON bodies are validated; the sent media type is preferred and the
+// first JSON media type of the operation is used otherwise
+function getJsonSchema(content: ResponseObject['content'], mediaType: string | undefined): SchemaObject | ReferenceObject | undefined {
+  if (!content) {
+    return undefined;
+  }
+  const key = mediaType && content[mediaType]
+    ? mediaType
+    : Object.keys(content).find(type => JSON_MEDIA_TYPE.test(type));
+  return key && JSON_MEDIA_TYPE.test(key) ? content[key].schema : undefined;
+}
+
+function parseJson(body: string, isBase64Encoded?: boolean): unknown {
+  try {
+    return JSON.parse(isBase64Encoded ? Buffer.from(body, 'base64').toString('utf8') : body);
+  } catch (error) {
+    return undefined;
+  }
+}